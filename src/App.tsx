@@ -7,15 +7,17 @@ import { PipecatClient } from "@pipecat-ai/client-js";
 import { PipecatClientProvider, PipecatClientAudio } from "@pipecat-ai/client-react";
 import { DailyTransport } from "@pipecat-ai/daily-transport";
 import Index from "./pages/Index";
+import FormPage from "./pages/FormPage";
+import History from "./pages/History";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-// Create the Pipecat client instance
+// Create the Pipecat client instance; the pre-call device check adjusts mic/cam per call
 const pipecatClient = new PipecatClient({
   transport: new DailyTransport(),
   enableMic: true,
-  enableCam: true,
+  enableCam: false,
 });
 
 const App = () => (
@@ -27,6 +29,8 @@ const App = () => (
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path="/forms/:formId" element={<FormPage />} />
+            <Route path="/history" element={<History />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
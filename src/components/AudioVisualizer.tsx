@@ -0,0 +1,127 @@
+import { useState, useEffect, useRef } from "react";
+import { usePipecatClientMediaTrack } from "@pipecat-ai/client-react";
+import { cn } from "@/lib/utils";
+
+interface AudioVisualizerProps {
+  participant: "local" | "bot";
+  barCount?: number;
+  width?: number;
+  height?: number;
+  className?: string;
+  // Called when the participant starts or stops producing audible sound
+  onActiveChange?: (active: boolean) => void;
+}
+
+// Average bar level (0-1) above which the participant counts as speaking
+const ACTIVE_THRESHOLD = 0.12;
+// Speech energy sits in the lower part of the spectrum, so ignore the top bins
+const VOICE_BIN_RATIO = 0.5;
+const MIN_BAR_HEIGHT = 2;
+
+const themeColor = (variable: string) =>
+  `hsl(${getComputedStyle(document.documentElement).getPropertyValue(variable).trim()})`;
+
+export function AudioVisualizer({
+  participant,
+  barCount = 12,
+  width = 72,
+  height = 24,
+  className,
+  onActiveChange
+}: AudioVisualizerProps) {
+  const track = usePipecatClientMediaTrack("audio", participant);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onActiveChangeRef = useRef(onActiveChange);
+  const [isActive, setIsActive] = useState(false);
+
+  onActiveChangeRef.current = onActiveChange;
+
+  useEffect(() => {
+    onActiveChangeRef.current?.(isActive);
+  }, [isActive]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    context.scale(scale, scale);
+
+    const activeColor = themeColor("--primary");
+    const idleColor = themeColor("--muted-foreground");
+    const slot = width / barCount;
+    const barWidth = Math.max(1, slot * 0.6);
+
+    const drawBars = (levels: number[], active: boolean) => {
+      context.clearRect(0, 0, width, height);
+      context.fillStyle = active ? activeColor : idleColor;
+      levels.forEach((level, index) => {
+        const barHeight = Math.max(MIN_BAR_HEIGHT, level * height);
+        const x = index * slot + (slot - barWidth) / 2;
+        context.fillRect(x, (height - barHeight) / 2, barWidth, barHeight);
+      });
+    };
+
+    if (!track) {
+      drawBars(new Array(barCount).fill(0), false);
+      setIsActive(false);
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(new MediaStream([track]));
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 256;
+    analyser.smoothingTimeConstant = 0.75;
+    // Analyse only; playback is handled by PipecatClientAudio
+    source.connect(analyser);
+    audioContext.resume().catch(error => console.warn("⚠️ Audio visualizer could not start:", error));
+
+    const data = new Uint8Array(analyser.frequencyBinCount);
+    const binsPerBar = Math.max(1, Math.floor((data.length * VOICE_BIN_RATIO) / barCount));
+    let wasActive = false;
+    let frame = 0;
+
+    const render = () => {
+      analyser.getByteFrequencyData(data);
+
+      const levels = Array.from({ length: barCount }, (_, bar) => {
+        let sum = 0;
+        for (let bin = bar * binsPerBar; bin < (bar + 1) * binsPerBar; bin++) {
+          sum += data[bin];
+        }
+        return sum / binsPerBar / 255;
+      });
+      const average = levels.reduce((total, level) => total + level, 0) / levels.length;
+      const active = track.enabled && average > ACTIVE_THRESHOLD;
+
+      drawBars(levels, active);
+      if (active !== wasActive) {
+        wasActive = active;
+        setIsActive(active);
+      }
+
+      frame = requestAnimationFrame(render);
+    };
+    render();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      audioContext.close();
+    };
+  }, [track, barCount, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width, height }}
+      className={cn("shrink-0", className)}
+      role="img"
+      aria-label={`${participant === "local" ? "Your" : "Assistant"} audio level${isActive ? ", speaking" : ""}`}
+    />
+  );
+}
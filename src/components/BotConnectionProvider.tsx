@@ -0,0 +1,390 @@
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePipecatClient, useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { RTVIEvent, type Participant, type RTVIMessage, type TransportState } from "@pipecat-ai/client-js";
+import { useToast } from "@/hooks/use-toast";
+import { BotConnectionContext, type BotConnectionContextValue } from "@/hooks/use-bot-connection";
+import {
+  type BotConnectionState,
+  INITIAL_BOT_CONNECTION_STATE,
+  checkHealth,
+  describeBotSession,
+  describeConnectionError,
+  getApiBaseUrl,
+  isConnectedTransportState,
+  isTransitionalTransportState,
+  logConnection,
+  negotiateConnection,
+  withConnectionErrorMonitoring
+} from "@/lib/bot-connection";
+import { applyDevicePreferences, loadDevicePreferences } from "@/lib/device-preferences";
+import { parseServerResponse } from "@/lib/form-protocol";
+import { DEFAULT_RECONNECT_CONFIG, type ReconnectConfig, getReconnectDelay } from "@/lib/reconnect";
+
+interface BotConnectionProviderProps {
+  // Tells the backend which form definition the bot should drive
+  formId: string;
+  reconnect?: Partial<ReconnectConfig>;
+  children: ReactNode;
+}
+
+export function BotConnectionProvider({ formId, reconnect, children }: BotConnectionProviderProps) {
+  const { toast } = useToast();
+  const pipecatClient = usePipecatClient();
+  const [state, setState] = useState<BotConnectionState>(INITIAL_BOT_CONNECTION_STATE);
+
+  const attempts = useRef(0);
+  const reconnectConfig = useRef<ReconnectConfig>(DEFAULT_RECONNECT_CONFIG);
+  const reconnectAttempt = useRef(0);
+  const reconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const wasConnected = useRef(false);
+  const manualDisconnect = useRef(false);
+  // Set once the bot confirms the form was submitted; the call has nothing left to do after that
+  const formSubmitted = useRef(false);
+  const startConnectionRef = useRef<() => Promise<void>>();
+
+  reconnectConfig.current = { ...DEFAULT_RECONNECT_CONFIG, ...reconnect };
+
+  const update = useCallback((patch: Partial<BotConnectionState>) => {
+    setState(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  const clearReconnect = useCallback(() => {
+    if (reconnectTimer.current) {
+      clearTimeout(reconnectTimer.current);
+      reconnectTimer.current = null;
+    }
+    reconnectAttempt.current = 0;
+    update({ reconnect: null });
+  }, [update]);
+
+  // Schedules the next reconnect attempt; "pending" means one was already waiting, null that retries are over
+  const scheduleReconnect = useCallback((): "scheduled" | "pending" | null => {
+    const config = reconnectConfig.current;
+    if (!config.enabled || manualDisconnect.current) return null;
+    if (reconnectTimer.current) return "pending";
+
+    const attempt = reconnectAttempt.current + 1;
+    if (attempt > config.maxAttempts) {
+      logConnection("error", `Giving up after ${config.maxAttempts} reconnect attempts`);
+      clearReconnect();
+      wasConnected.current = false;
+      toast({
+        title: "Reconnection Failed",
+        description: `Could not reconnect after ${config.maxAttempts} attempts. Please connect again.`,
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    const delay = getReconnectDelay(attempt, config);
+    logConnection("info", `Scheduling reconnect attempt #${attempt} in ${delay}ms`);
+
+    reconnectAttempt.current = attempt;
+    update({ reconnect: { attempt, maxAttempts: config.maxAttempts, at: Date.now() + delay } });
+    reconnectTimer.current = setTimeout(() => {
+      reconnectTimer.current = null;
+      update({ reconnect: null });
+      startConnectionRef.current?.();
+    }, delay);
+    return "scheduled";
+  }, [clearReconnect, toast, update]);
+
+  // The client outlives this provider, so leaving the page must end the call here
+  useEffect(() => {
+    return () => {
+      if (reconnectTimer.current) {
+        clearTimeout(reconnectTimer.current);
+      }
+      manualDisconnect.current = true;
+
+      if (pipecatClient && (isConnectedTransportState(pipecatClient.state) || isTransitionalTransportState(pipecatClient.state))) {
+        logConnection("info", "🔌 Leaving the form page, ending the call");
+        pipecatClient.disconnect().catch(error => logConnection("error", "Disconnect on leave failed", error));
+      }
+    };
+  }, [pipecatClient]);
+
+  // Listen to transport state changes
+  useRTVIClientEvent(RTVIEvent.TransportStateChanged, useCallback((transportState: TransportState) => {
+    logConnection("info", `Transport state changed: ${transportState}`);
+
+    const connected = isConnectedTransportState(transportState);
+    logConnection("info", `Connection status: ${connected ? "CONNECTED" : "DISCONNECTED"}`);
+
+    setState(prev => {
+      let status = prev.status;
+      if (connected) status = "ready";
+      else if (transportState === "error") status = "error";
+      else if (transportState === "disconnected" && prev.status !== "error") status = "idle";
+      return { ...prev, transportState, status, error: connected ? null : prev.error };
+    });
+
+    if (connected) {
+      wasConnected.current = true;
+    }
+
+    // A call whose form was submitted is over; only errors and unexpected drops are retried
+    const isUnexpectedDrop = transportState === "error" ||
+      (transportState === "disconnected" && !formSubmitted.current);
+    // An error is usually followed by a disconnect; both belong to the same drop
+    const reconnecting = isUnexpectedDrop && wasConnected.current ? scheduleReconnect() : null;
+
+    // Show appropriate toasts
+    if (transportState === "connected" && reconnectAttempt.current > 0) {
+      logConnection("info", `Reconnected after ${reconnectAttempt.current} attempt(s)`);
+      clearReconnect();
+      toast({
+        title: "Reconnected!",
+        description: "Your call and form progress have been restored."
+      });
+    } else if (transportState === "connected") {
+      logConnection("info", "Successfully connected to transport");
+      toast({
+        title: "Connected!",
+        description: "You are now connected to the video call."
+      });
+    } else if (reconnecting) {
+      logConnection("warn", `Connection lost (${transportState}), reconnecting automatically`);
+      if (reconnecting === "scheduled" && reconnectAttempt.current === 1) {
+        toast({
+          title: "Connection Lost",
+          description: "Trying to reconnect automatically..."
+        });
+      }
+    } else if (transportState === "ready") {
+      logConnection("info", "Bot is ready for interaction");
+      toast({
+        title: "Ready!",
+        description: "Bot is ready for conversation."
+      });
+    } else if (transportState === "disconnected" && formSubmitted.current) {
+      logConnection("info", "Bot ended the call");
+      wasConnected.current = false;
+      toast({
+        title: "Call ended",
+        description: "The assistant has ended the call."
+      });
+    } else if (transportState === "disconnected" && wasConnected.current) {
+      logConnection("warn", "Disconnected from transport");
+      toast({
+        title: "Disconnected",
+        description: "You have been disconnected from the call.",
+        variant: "destructive"
+      });
+    } else if (transportState === "disconnected") {
+      // Nothing to report: pre-call devices were released or the user hung up
+      logConnection("info", "Transport disconnected outside a call");
+    } else if (transportState === "error") {
+      logConnection("error", "Transport error occurred");
+      toast({
+        title: "Connection Error",
+        description: "Failed to connect to the call. Please try again.",
+        variant: "destructive"
+      });
+    }
+  }, [toast, clearReconnect, scheduleReconnect]));
+
+  // Listen to bot ready event
+  useRTVIClientEvent(RTVIEvent.BotReady, useCallback(() => {
+    logConnection("info", "Bot ready event received");
+    toast({
+      title: "Bot Ready",
+      description: "The AI assistant is now ready to chat."
+    });
+  }, [toast]));
+
+  // Listen to client ready event
+  useRTVIClientEvent(RTVIEvent.Connected, useCallback(() => {
+    logConnection("info", "Client connected event received");
+  }, []));
+
+  // Listen to error events
+  useRTVIClientEvent(RTVIEvent.Error, useCallback((message: RTVIMessage) => {
+    logConnection("error", "RTVI Error event received", message);
+    const data = message?.data as { message?: string } | undefined;
+    toast({
+      title: "RTVI Error",
+      description: `Error: ${data?.message || "Unknown error occurred"}`,
+      variant: "destructive"
+    });
+  }, [toast]));
+
+  // Listen to disconnect events
+  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => {
+    logConnection("warn", "RTVI Disconnected event received");
+  }, []));
+
+  // Listen to bot events
+  useRTVIClientEvent(RTVIEvent.BotConnected, useCallback((participant: Participant) => {
+    logConnection("info", "Bot connected event received", participant);
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.BotDisconnected, useCallback((participant: Participant) => {
+    logConnection("warn", "Bot disconnected event received", participant);
+  }, []));
+
+  // The bot leaving on its own may be a crash, so only a submitted form counts as the end of the call
+  useRTVIClientEvent(RTVIEvent.ServerResponse, useCallback((data: unknown) => {
+    const result = parseServerResponse(data);
+    if (result.message?.status === "complete") {
+      logConnection("info", "Form submitted, the call can end");
+      formSubmitted.current = true;
+    }
+  }, []));
+
+  // Runs the full health check → negotiate → connect sequence once
+  const startConnection = useCallback(async () => {
+    const attemptNumber = attempts.current + 1;
+    attempts.current = attemptNumber;
+    formSubmitted.current = false;
+    update({ attempts: attemptNumber, status: "health-checking", error: null });
+
+    try {
+      logConnection("info", `🚀 Starting connection attempt #${attemptNumber}`);
+
+      // Validate environment and client
+      if (!pipecatClient) {
+        throw new Error("Pipecat client is not available");
+      }
+
+      const baseUrl = getApiBaseUrl();
+      const healthUrl = `${baseUrl}/`;
+      const connectUrl = `${baseUrl}/connect`;
+
+      logConnection("info", "Environment check", {
+        baseUrl,
+        healthUrl,
+        connectUrl,
+        clientAvailable: !!pipecatClient
+      });
+
+      // Step 1: Test health endpoint
+      logConnection("info", "📋 Step 1: Testing health endpoint...");
+      const healthCheck = await checkHealth(healthUrl);
+
+      if (!healthCheck) {
+        throw new Error("Health check failed - server may be unavailable");
+      }
+
+      // Step 2: Create the bot session
+      logConnection("info", "🔗 Step 2: Requesting bot session...");
+      update({ status: "negotiating" });
+      const requestData = { form_id: formId };
+
+      // Join with the devices chosen in the pre-call check
+      const devices = loadDevicePreferences();
+      await applyDevicePreferences(pipecatClient, devices);
+
+      const negotiation = await negotiateConnection(connectUrl, requestData, {
+        enableMic: devices.enableMic,
+        enableCam: devices.enableCam
+      });
+
+      if (!negotiation.success) {
+        throw new Error(`Connect endpoint failed: ${negotiation.error} (Status: ${negotiation.status})`);
+      }
+
+      // Step 3: Join the room from that same response, so /connect is only called once per call
+      logConnection("info", "🎯 Step 3: Joining bot room...", describeBotSession(negotiation.session));
+      update({ status: "connecting" });
+
+      // The transport rewrites the params it is given, so hand it a copy
+      await withConnectionErrorMonitoring(() => pipecatClient.connect({ ...negotiation.session }));
+      logConnection("info", "✅ Pipecat connection initiated successfully");
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      logConnection("error", "Connection failed with error", {
+        message: error.message,
+        stack: error.stack,
+        attempt: attemptNumber
+      });
+
+      const connectionError = describeConnectionError(error);
+      update({ status: "error", error: connectionError });
+
+      // Failed automatic attempts back off and retry instead of alerting each time
+      if (reconnectAttempt.current > 0 && scheduleReconnect()) {
+        logConnection("warn", `Reconnect attempt #${reconnectAttempt.current} failed, retrying`);
+        return;
+      }
+
+      toast({
+        title: connectionError.title,
+        description: connectionError.description,
+        variant: "destructive"
+      });
+    }
+  }, [pipecatClient, formId, toast, update, scheduleReconnect]);
+
+  startConnectionRef.current = startConnection;
+
+  const connect = useCallback(async () => {
+    manualDisconnect.current = false;
+    clearReconnect();
+    await startConnection();
+  }, [clearReconnect, startConnection]);
+
+  const disconnect = useCallback(async () => {
+    try {
+      logConnection("info", "🔌 Initiating disconnect...");
+
+      // A user-initiated disconnect must not trigger automatic reconnection
+      manualDisconnect.current = true;
+      wasConnected.current = false;
+      clearReconnect();
+
+      if (!pipecatClient) {
+        logConnection("warn", "No pipecat client available for disconnect");
+        return;
+      }
+
+      await pipecatClient.disconnect();
+      logConnection("info", "✅ Disconnect successful");
+      update({ status: "idle", error: null });
+
+      toast({
+        title: "Call ended",
+        description: "You have disconnected from the call.",
+        variant: "destructive"
+      });
+    } catch (error) {
+      logConnection("error", "Disconnect failed", error);
+      toast({
+        title: "Disconnect Error",
+        description: "Error while disconnecting. Please refresh the page.",
+        variant: "destructive"
+      });
+    }
+  }, [pipecatClient, clearReconnect, toast, update]);
+
+  const retryNow = useCallback(() => {
+    if (reconnectTimer.current) {
+      clearTimeout(reconnectTimer.current);
+      reconnectTimer.current = null;
+    }
+    update({ reconnect: null });
+    startConnection();
+  }, [startConnection, update]);
+
+  const cancelReconnect = useCallback(() => {
+    logConnection("info", "Automatic reconnection cancelled by user");
+    wasConnected.current = false;
+    clearReconnect();
+  }, [clearReconnect]);
+
+  const value = useMemo<BotConnectionContextValue>(() => ({
+    ...state,
+    formId,
+    isConnected: isConnectedTransportState(state.transportState),
+    connect,
+    disconnect,
+    retryNow,
+    cancelReconnect
+  }), [state, formId, connect, disconnect, retryNow, cancelReconnect]);
+
+  return (
+    <BotConnectionContext.Provider value={value}>
+      {children}
+    </BotConnectionContext.Provider>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState, useCallback, useEffect } from "react";
+import { Camera, CameraOff, Mic, MicOff, PhoneOff, Settings2, Volume2 } from "lucide-react";
+import { useMediaState, usePipecatClientCamControl, usePipecatClientMicControl } from "@pipecat-ai/client-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { AudioVisualizer } from "@/components/AudioVisualizer";
+import { DeviceSelect } from "@/components/DeviceSelect";
+import { useBotConnection } from "@/hooks/use-bot-connection";
+import { useDevicePreferences } from "@/hooks/use-device-preferences";
+
+const PUSH_TO_TALK_KEY = " ";
+
+// Space must still type spaces in the chat and form inputs
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export function CallControls() {
+  const { disconnect } = useBotConnection();
+  const { isMicEnabled, enableMic } = usePipecatClientMicControl();
+  const { isCamEnabled, enableCam } = usePipecatClientCamControl();
+  const mediaState = useMediaState();
+  const {
+    availableMics,
+    availableCams,
+    availableSpeakers,
+    selectedMicId,
+    selectedCamId,
+    selectedSpeakerId,
+    selectMic,
+    selectCam,
+    selectSpeaker
+  } = useDevicePreferences();
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+
+  const micUnavailable = mediaState.mic.state === "error";
+  const camUnavailable = mediaState.cam.state === "error";
+
+  const handlePushToTalkChange = (enabled: boolean) => {
+    console.log(`🎙️ Push-to-talk ${enabled ? "enabled" : "disabled"}`);
+    setPushToTalk(enabled);
+    setIsTalking(false);
+    enableMic(!enabled);
+  };
+
+  const startTalking = useCallback(() => {
+    if (!pushToTalk) return;
+    setIsTalking(true);
+    enableMic(true);
+  }, [pushToTalk, enableMic]);
+
+  const stopTalking = useCallback(() => {
+    if (!pushToTalk) return;
+    setIsTalking(false);
+    enableMic(false);
+  }, [pushToTalk, enableMic]);
+
+  // Hold space to talk while push-to-talk is on
+  useEffect(() => {
+    if (!pushToTalk) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== PUSH_TO_TALK_KEY || event.repeat || isEditableTarget(event.target)) return;
+      event.preventDefault();
+      startTalking();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key !== PUSH_TO_TALK_KEY || isEditableTarget(event.target)) return;
+      event.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", stopTalking);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", stopTalking);
+    };
+  }, [pushToTalk, startTalking, stopTalking]);
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 rounded-full border bg-card px-4 py-2 shadow-sm">
+      {pushToTalk ? (
+        <Button
+          type="button"
+          variant={isTalking ? "default" : "outline"}
+          size="sm"
+          className="rounded-full select-none"
+          onPointerDown={startTalking}
+          onPointerUp={stopTalking}
+          onPointerLeave={stopTalking}
+          disabled={micUnavailable}
+        >
+          {isTalking ? <Mic size={16} /> : <MicOff size={16} />}
+          {isTalking ? "Talking..." : "Hold to talk (Space)"}
+        </Button>
+      ) : (
+        <Button
+          type="button"
+          variant={isMicEnabled ? "outline" : "destructive"}
+          size="icon"
+          className="rounded-full"
+          onClick={() => enableMic(!isMicEnabled)}
+          disabled={micUnavailable}
+          aria-label={isMicEnabled ? "Mute microphone" : "Unmute microphone"}
+          title={micUnavailable ? "Microphone unavailable" : isMicEnabled ? "Mute microphone" : "Unmute microphone"}
+        >
+          {isMicEnabled ? <Mic size={16} /> : <MicOff size={16} />}
+        </Button>
+      )}
+
+      {/* Shows whether the mic is actually being picked up */}
+      <AudioVisualizer participant="local" barCount={8} width={40} height={20} />
+
+      <Button
+        type="button"
+        variant={isCamEnabled ? "outline" : "secondary"}
+        size="icon"
+        className="rounded-full"
+        onClick={() => enableCam(!isCamEnabled)}
+        disabled={camUnavailable}
+        aria-label={isCamEnabled ? "Turn camera off" : "Turn camera on"}
+        title={camUnavailable ? "Camera unavailable" : isCamEnabled ? "Turn camera off" : "Turn camera on"}
+      >
+        {isCamEnabled ? <Camera size={16} /> : <CameraOff size={16} />}
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="rounded-full"
+            aria-label="Call settings"
+            title="Call settings"
+          >
+            <Settings2 size={16} />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-4">
+          <DeviceSelect
+            id="call-controls-mic-select"
+            label="Microphone"
+            icon={Mic}
+            devices={availableMics}
+            selectedId={selectedMicId}
+            onChange={selectMic}
+          />
+          <DeviceSelect
+            id="call-controls-cam-select"
+            label="Camera"
+            icon={Camera}
+            devices={availableCams}
+            selectedId={selectedCamId}
+            onChange={selectCam}
+          />
+          <DeviceSelect
+            id="call-controls-speaker-select"
+            label="Speaker"
+            icon={Volume2}
+            devices={availableSpeakers}
+            selectedId={selectedSpeakerId}
+            onChange={selectSpeaker}
+          />
+          <div className="flex items-center justify-between gap-2 border-t pt-4">
+            <Label htmlFor="call-controls-push-to-talk">Push-to-talk</Label>
+            <Switch
+              id="call-controls-push-to-talk"
+              checked={pushToTalk}
+              onCheckedChange={handlePushToTalkChange}
+              disabled={micUnavailable}
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        type="button"
+        variant="disconnect"
+        size="icon"
+        className="rounded-full"
+        onClick={disconnect}
+        aria-label="Leave call"
+        title="Leave call"
+      >
+        <PhoneOff size={16} />
+      </Button>
+    </div>
+  );
+}
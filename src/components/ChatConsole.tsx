@@ -1,33 +1,83 @@
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Mic, MicOff } from "lucide-react";
-import { usePipecatClient, useRTVIClientEvent } from "@pipecat-ai/client-react";
-import { RTVIEvent } from "@pipecat-ai/client-js";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ChatMarkdown } from "@/components/ChatMarkdown";
+import { ChatRichContent } from "@/components/ChatRichContent";
+import { SuggestionChips } from "@/components/SuggestionChips";
+import { TranscriptExportMenu } from "@/components/TranscriptExportMenu";
+import { Send, Mic, MicOff, Check, Clock, AlertCircle, RotateCw } from "lucide-react";
+import { useBotConnection } from "@/hooks/use-bot-connection";
+import { useConversation } from "@/hooks/use-conversation";
+import type { ChatMessage, MessageDeliveryStatus } from "@/lib/conversation-history";
+import { type ChatQuickReply, getSuggestionText } from "@/lib/form-protocol";
 
-interface Message {
-  id: string;
-  text: string;
-  timestamp: Date;
-  isOwn: boolean;
-  type: 'text' | 'transcription';
-  final?: boolean;
+function TypingIndicator() {
+  return (
+    <span className="inline-flex items-center gap-1" aria-label="Bot is responding">
+      {[0, 150, 300].map(delay => (
+        <span
+          key={delay}
+          className="w-1.5 h-1.5 rounded-full bg-current opacity-60 animate-bounce"
+          style={{ animationDelay: `${delay}ms` }}
+        />
+      ))}
+    </span>
+  );
 }
 
-interface ChatConsoleProps {
-  isConnected?: boolean;
+const DELIVERY_STATUS_LABELS: Record<MessageDeliveryStatus, string> = {
+  queued: "Waiting for connection",
+  pending: "Sending",
+  sent: "Sent",
+  failed: "Not delivered"
+};
+
+// Retry is only offered while a message could actually go out
+function DeliveryStatus({ status, onRetry }: { status: MessageDeliveryStatus; onRetry?: () => void }) {
+  return (
+    <span className="flex items-center gap-1" aria-live="polite">
+      {status === "sent" && <Check size={12} />}
+      {(status === "pending" || status === "queued") && (
+        <Clock size={12} className={status === "pending" ? "animate-pulse" : undefined} />
+      )}
+      {status === "failed" && <AlertCircle size={12} />}
+      <span>{DELIVERY_STATUS_LABELS[status]}</span>
+      {status === "failed" && onRetry && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="ml-1 inline-flex items-center gap-1 underline underline-offset-2 hover:opacity-80"
+        >
+          <RotateCw size={12} />
+          Retry
+        </button>
+      )}
+    </span>
+  );
 }
 
-export function ChatConsole({ isConnected = false }: ChatConsoleProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+export function ChatConsole() {
+  const { isConnected } = useBotConnection();
+  const {
+    session,
+    messages,
+    interimTranscript,
+    isListening,
+    isBotResponding,
+    isSendingMessage,
+    isReconnecting,
+    suggestions,
+    preferences,
+    setShowInterimTranscripts,
+    sendMessage,
+    retryMessage
+  } = useConversation();
   const [newMessage, setNewMessage] = useState("");
-  const [isListening, setIsListening] = useState(false);
-  const [isSendingMessage, setIsSendingMessage] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  
-  const pipecatClient = usePipecatClient();
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -37,145 +87,25 @@ export function ChatConsole({ isConnected = false }: ChatConsoleProps) {
         scrollElement.scrollTop = scrollElement.scrollHeight;
       }
     }
-  }, [messages]);
-
-  // Listen to user transcription events (what the user says) - FINAL ONLY
-  useRTVIClientEvent(
-    RTVIEvent.UserTranscript,
-    useCallback((data: any) => {
-      console.log("🎤 User transcription event:", JSON.stringify(data, null, 2));
-      
-      const transcriptText = data?.text || data?.data?.text || "";
-      const isFinal = data?.final ?? data?.data?.final ?? false;
-      const timestamp = data?.timestamp || data?.data?.timestamp || Date.now();
-      
-      console.log("Parsed transcript:", { transcriptText, isFinal, timestamp });
-      
-      // Only process final transcripts
-      if (isFinal && transcriptText && transcriptText.trim()) {
-        console.log("✅ Adding final user transcript:", transcriptText);
-        const message: Message = {
-          id: `user-transcript-${Date.now()}-${Math.random()}`,
-          text: transcriptText.trim(),
-          timestamp: new Date(timestamp),
-          isOwn: true,
-          type: 'transcription',
-          final: true
-        };
-        setMessages(prev => {
-          console.log("Messages before adding user transcript:", prev.length);
-          const newMessages = [...prev, message];
-          console.log("Messages after adding user transcript:", newMessages.length);
-          return newMessages;
-        });
-      }
-    }, [])
-  );
-
-  // Listen to bot transcription (what the bot says)
-  useRTVIClientEvent(
-    RTVIEvent.BotTranscript,
-    useCallback((data: any) => {
-      console.log("🤖 Bot transcription event:", JSON.stringify(data, null, 2));
-      
-      const transcriptText = data?.text || data?.data?.text || "";
-      
-      console.log("Parsed bot transcript:", transcriptText);
-      
-      // Only add if there's actual text content
-      if (transcriptText && transcriptText.trim()) {
-        console.log("✅ Adding bot transcript:", transcriptText);
-        const message: Message = {
-          id: `bot-transcript-${Date.now()}-${Math.random()}`,
-          text: transcriptText.trim(),
-          timestamp: new Date(),
-          isOwn: false,
-          type: 'transcription'
-        };
-        
-        setMessages(prev => {
-          console.log("Messages before adding bot transcript:", prev.length);
-          const newMessages = [...prev, message];
-          console.log("Messages after adding bot transcript:", newMessages.length);
-          return newMessages;
-        });
-      }
-    }, [])
-  );
+  }, [messages, interimTranscript, isBotResponding]);
 
-  // Listen to user started/stopped speaking
-  useRTVIClientEvent(
-    RTVIEvent.UserStartedSpeaking,
-    useCallback(() => {
-      console.log("🎙️ User started speaking");
-      setIsListening(true);
-    }, [])
-  );
-
-  useRTVIClientEvent(
-    RTVIEvent.UserStoppedSpeaking,
-    useCallback(() => {
-      console.log("🔇 User stopped speaking");
-      setIsListening(false);
-    }, [])
-  );
+  // Messages typed while reconnecting are queued and sent once the call is back
+  const canType = isConnected || isReconnecting;
 
-  // Send text message through Pipecat
-  const handleSendMessage = useCallback(async () => {
-    if (!newMessage.trim() || !isConnected || !pipecatClient) return;
+  const handleSendMessage = () => {
+    if (!newMessage.trim() || !canType) return;
 
-    const messageText = newMessage.trim();
-    
+    sendMessage(newMessage);
     // Clear the input immediately to allow new typing
     setNewMessage("");
+  };
 
-    try {
-      // Add the user's typed message to the chat immediately
-      const userMessage: Message = {
-        id: `user-text-${Date.now()}`,
-        text: messageText,
-        timestamp: new Date(),
-        isOwn: true,
-        type: 'text'
-      };
-      
-      setMessages(prev => [...prev, userMessage]);
-      
-      // Send message to the bot through Pipecat (fire and forget)
-      console.log("📤 Sending typed message to bot:", messageText);
-      
-      pipecatClient.appendToContext({
-        role: "user",
-        content: messageText,
-        run_immediately: true
-      }).catch((error) => {
-        console.error("❌ appendToContext failed:", error);
-        
-        // Show error message to user only if it actually fails
-        const errorMessage: Message = {
-          id: `error-${Date.now()}`,
-          text: "Failed to send message. Please try again.",
-          timestamp: new Date(),
-          isOwn: false,
-          type: 'text'
-        };
-        setMessages(prev => [...prev, errorMessage]);
-      });
-      
-    } catch (error) {
-      console.error("❌ Failed to process message:", error);
-      
-      // Show error message to user
-      const errorMessage: Message = {
-        id: `error-${Date.now()}`,
-        text: "Failed to process message. Please try again.",
-        timestamp: new Date(),
-        isOwn: false,
-        type: 'text'
-      };
-      setMessages(prev => [...prev, errorMessage]);
-    }
-  }, [newMessage, isConnected, pipecatClient]);
+  const handleQuickReply = (reply: ChatQuickReply) => {
+    sendMessage(reply.value ?? reply.label);
+  };
+
+  // Quick replies only apply until the user has answered
+  const lastOwnIndex = messages.reduce((last, message, index) => message.isOwn ? index : last, -1);
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -184,14 +114,14 @@ export function ChatConsole({ isConnected = false }: ChatConsoleProps) {
     }
   };
 
-  const getMessageIcon = (message: Message) => {
+  const getMessageIcon = (message: ChatMessage) => {
     if (message.type === 'transcription' && message.isOwn) {
       return <Mic size={12} className="opacity-70" />;
     }
     return null;
   };
 
-  const getMessageTypeLabel = (message: Message) => {
+  const getMessageTypeLabel = (message: ChatMessage) => {
     if (message.type === 'transcription') {
       return message.isOwn ? 'You (Spoken)' : 'Bot Response';
     }
@@ -225,26 +155,43 @@ export function ChatConsole({ isConnected = false }: ChatConsoleProps) {
                 <span className="text-xs">Sending</span>
               </div>
             )}
+            <TranscriptExportMenu session={session} messages={messages} />
             <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-success animate-pulse-glow' : 'bg-muted'}`} />
           </div>
         </div>
         
         {/* Debug Info */}
-        <div className="text-xs text-muted-foreground mt-2">
-          Messages: {messages.length} | Listening: {isListening ? 'Yes' : 'No'}
+        <div className="flex items-center justify-between gap-2 mt-2">
+          <div className="text-xs text-muted-foreground">
+            Messages: {messages.length} | Listening: {isListening ? 'Yes' : 'No'}
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="chat-interim-transcripts" className="text-xs text-muted-foreground">
+              Live transcript
+            </Label>
+            <Switch
+              id="chat-interim-transcripts"
+              checked={preferences.showInterimTranscripts}
+              onCheckedChange={setShowInterimTranscripts}
+            />
+          </div>
         </div>
       </div>
       
       {/* Messages Area */}
       <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
         <div className="space-y-4">
-          {messages.length === 0 ? (
+          {messages.length === 0 && !interimTranscript && !isBotResponding ? (
             <div className="text-center text-muted-foreground py-8">
               {isConnected ? (
                 <>
                   <p>Connected! Start speaking or type a message.</p>
                   <p className="text-sm mt-2">The AI will respond in real-time.</p>
-                  <p className="text-xs mt-1 opacity-60">Final transcripts only - no interim display</p>
+                  <p className="text-xs mt-1 opacity-60">
+                    {preferences.showInterimTranscripts
+                      ? "Live transcript on - your words appear as you speak"
+                      : "Final transcripts only - no interim display"}
+                  </p>
                 </>
               ) : (
                 <>
@@ -254,52 +201,106 @@ export function ChatConsole({ isConnected = false }: ChatConsoleProps) {
               )}
             </div>
           ) : (
-            messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.isOwn ? 'justify-end' : 'justify-start'}`}
-              >
+            <>
+              {messages.map((message, index) => (
                 <div
-                  className={`max-w-[85%] p-3 rounded-lg shadow-sm animate-fade-in ${
-                    message.isOwn
-                      ? 'bg-gradient-button text-primary-foreground'
-                      : 'bg-secondary text-secondary-foreground'
-                  }`}
+                  key={message.id}
+                  className={`flex ${message.isOwn ? 'justify-end' : 'justify-start'}`}
                 >
-                  <div className="flex items-center gap-1 mb-1">
-                    {getMessageIcon(message)}
-                    <span className="text-xs opacity-70 font-medium">
-                      {getMessageTypeLabel(message)}
-                    </span>
+                  <div
+                    className={`max-w-[85%] p-3 rounded-lg shadow-sm animate-fade-in ${
+                      message.isOwn
+                        ? 'bg-gradient-button text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground'
+                    }`}
+                  >
+                    <div className="flex items-center gap-1 mb-1">
+                      {getMessageIcon(message)}
+                      <span className="text-xs opacity-70 font-medium">
+                        {getMessageTypeLabel(message)}
+                      </span>
+                    </div>
+                    {message.isOwn ? (
+                      <p className="text-sm leading-relaxed">{message.text}</p>
+                    ) : (
+                      message.text && <ChatMarkdown text={message.text} />
+                    )}
+                    {message.streaming && (
+                      <span className="inline-block mt-1">
+                        <TypingIndicator />
+                      </span>
+                    )}
+                    {message.content && (
+                      <ChatRichContent
+                        content={message.content}
+                        onReply={handleQuickReply}
+                        disabled={!isConnected || index < lastOwnIndex}
+                      />
+                    )}
+                    <div className="flex items-center justify-between gap-3 text-xs mt-1">
+                      <span className="opacity-70">
+                        {message.timestamp.toLocaleTimeString([], { 
+                          hour: '2-digit', 
+                          minute: '2-digit' 
+                        })}
+                      </span>
+                      {message.status && (
+                        <span className={message.status === "failed" ? "font-medium" : "opacity-70"}>
+                          <DeliveryStatus
+                            status={message.status}
+                            onRetry={canType ? () => retryMessage(message.id) : undefined}
+                          />
+                        </span>
+                      )}
+                    </div>
                   </div>
-                  <p className="text-sm leading-relaxed">{message.text}</p>
-                  <p className="text-xs opacity-70 mt-1">
-                    {message.timestamp.toLocaleTimeString([], { 
-                      hour: '2-digit', 
-                      minute: '2-digit' 
-                    })}
-                  </p>
                 </div>
-              </div>
-            ))
+              ))}
+              {isBotResponding && !messages.some(message => message.streaming) && (
+                <div className="flex justify-start">
+                  <div className="p-3 rounded-lg shadow-sm bg-secondary text-secondary-foreground">
+                    <TypingIndicator />
+                  </div>
+                </div>
+              )}
+              {interimTranscript && (
+                <div className="flex justify-end" aria-live="polite">
+                  <div className="max-w-[85%] p-3 rounded-lg shadow-sm bg-gradient-button text-primary-foreground opacity-70">
+                    <div className="flex items-center gap-1 mb-1">
+                      <Mic size={12} className="opacity-70 animate-pulse" />
+                      <span className="text-xs opacity-70 font-medium">You (Speaking...)</span>
+                    </div>
+                    <p className="text-sm leading-relaxed italic">{interimTranscript}</p>
+                  </div>
+                </div>
+              )}
+            </>
           )}
         </div>
       </ScrollArea>
       
       {/* Message Input */}
       <div className="p-4 border-t border-border/50">
+        {suggestions && (
+          <SuggestionChips
+            suggestions={suggestions.suggestions}
+            onSelect={suggestion => sendMessage(getSuggestionText(suggestion))}
+            disabled={!canType}
+            className="mb-3"
+          />
+        )}
         <div className="flex gap-2">
           <Input
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder={isConnected ? "Type a message..." : "Connect to start chatting"}
-            disabled={!isConnected || isSendingMessage}
+            placeholder={isConnected ? "Type a message..." : isReconnecting ? "Reconnecting - messages will be sent when back" : "Connect to start chatting"}
+            disabled={!canType}
             className="flex-1 bg-background/50 border-border/50 focus:border-primary/50"
           />
           <Button
             onClick={handleSendMessage}
-            disabled={!newMessage.trim() || !isConnected || isSendingMessage}
+            disabled={!newMessage.trim() || !canType}
             size="icon"
             variant="connect"
             className="rounded-full"
@@ -308,9 +309,14 @@ export function ChatConsole({ isConnected = false }: ChatConsoleProps) {
           </Button>
         </div>
         
-        {isConnected && (
+        {canType && (
           <div className="mt-2 text-xs text-muted-foreground text-center">
-            {isSendingMessage ? (
+            {isReconnecting ? (
+              <span className="flex items-center justify-center gap-1">
+                <Clock size={12} />
+                Reconnecting - typed messages are queued
+              </span>
+            ) : isSendingMessage ? (
               <span className="flex items-center justify-center gap-1">
                 <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
                 Sending message to bot...
@@ -318,7 +324,7 @@ export function ChatConsole({ isConnected = false }: ChatConsoleProps) {
             ) : isListening ? (
               <span className="flex items-center justify-center gap-1">
                 <Mic size={12} className="animate-pulse" />
-                Voice detected - processing final transcript
+                {preferences.showInterimTranscripts ? "Voice detected - transcribing" : "Voice detected - processing final transcript"}
               </span>
             ) : (
               <span>Speak naturally or type your message</span>
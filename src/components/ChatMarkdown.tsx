@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { type MarkdownBlock, type MarkdownInline, parseMarkdown } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+function renderInline(nodes: MarkdownInline[]) {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <span key={index} className="whitespace-pre-wrap">{node.text}</span>;
+      case "strong":
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "code":
+        return <code key={index} className="rounded bg-background/40 px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 break-words hover:opacity-80"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number) {
+  switch (block.type) {
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case "heading":
+      return (
+        <p key={index} className={cn("font-semibold", block.level === 1 && "text-base")}>
+          {renderInline(block.children)}
+        </p>
+      );
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List key={index} className={cn("pl-5 space-y-1", block.ordered ? "list-decimal" : "list-disc")}>
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case "quote":
+      return (
+        <blockquote key={index} className="border-l-2 border-current/40 pl-3 opacity-90">
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre key={index} className="overflow-x-auto rounded bg-background/40 p-2 font-mono text-xs">
+          <code>{block.text}</code>
+        </pre>
+      );
+  }
+}
+
+interface ChatMarkdownProps {
+  text: string;
+  className?: string;
+}
+
+// Renders bot text as safe Markdown; HTML in the source is shown as text
+export function ChatMarkdown({ text, className }: ChatMarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={cn("text-sm leading-relaxed space-y-2 break-words", className)}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { ExternalLink } from "lucide-react";
+import { ChatMarkdown } from "@/components/ChatMarkdown";
+import { SuggestionChips } from "@/components/SuggestionChips";
+import type { ChatMessage } from "@/lib/conversation-history";
+import type { ChatQuickReply } from "@/lib/form-protocol";
+import { sanitizeUrl } from "@/lib/markdown";
+
+interface ChatRichContentProps {
+  content: NonNullable<ChatMessage["content"]>;
+  // Omitted for read-only transcripts, which show the replies without making them clickable
+  onReply?: (reply: ChatQuickReply) => void;
+  disabled?: boolean;
+}
+
+export function ChatRichContent({ content, onReply, disabled }: ChatRichContentProps) {
+  return (
+    <div className="mt-2 space-y-2">
+      {content.cards?.map((card, index) => {
+        const imageUrl = card.image_url ? sanitizeUrl(card.image_url) : null;
+        const url = card.url ? sanitizeUrl(card.url) : null;
+
+        return (
+          <div key={`${card.title}-${index}`} className="overflow-hidden rounded-md border border-border/50 bg-background/60 text-foreground">
+            {imageUrl && (
+              <img src={imageUrl} alt="" loading="lazy" referrerPolicy="no-referrer" className="h-28 w-full object-cover" />
+            )}
+            <div className="p-3 space-y-2">
+              <p className="text-sm font-semibold">{card.title}</p>
+              {card.description && <ChatMarkdown text={card.description} className="text-xs" />}
+              {url && (
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="inline-flex items-center gap-1 text-xs text-primary underline-offset-2 hover:underline"
+                >
+                  <ExternalLink size={12} />
+                  Open link
+                </a>
+              )}
+              {card.actions && (
+                <SuggestionChips suggestions={card.actions} onSelect={onReply} disabled={disabled} />
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {content.quick_replies && (
+        <SuggestionChips suggestions={content.quick_replies} onSelect={onReply} disabled={disabled} />
+      )}
+    </div>
+  );
+}
@@ -1,398 +1,83 @@
-import { useState, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Phone, PhoneOff } from "lucide-react";
-import { usePipecatClient, useRTVIClientEvent } from "@pipecat-ai/client-react";
-import { RTVIEvent, TransportState } from "@pipecat-ai/client-js";
-import { useToast } from "@/hooks/use-toast";
-
-interface ConnectionButtonProps {
-  onConnectionChange?: (isConnected: boolean) => void;
-}
-
-export function ConnectionButton({
-  onConnectionChange
-}: ConnectionButtonProps) {
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [transportState, setTransportState] = useState<TransportState>("disconnected");
-  const [connectionAttempts, setConnectionAttempts] = useState(0);
+import { Phone, PhoneOff, RefreshCw } from "lucide-react";
+import { usePipecatClient } from "@pipecat-ai/client-react";
+import { useBotConnection } from "@/hooks/use-bot-connection";
+import { type BotConnectionStatus, isTransitionalTransportState, logConnection } from "@/lib/bot-connection";
+
+const STATUS_LABELS: Partial<Record<BotConnectionStatus, string>> = {
+  "health-checking": "Checking server...",
+  "negotiating": "Requesting room...",
+  "connecting": "Connecting..."
+};
+
+export function ConnectionButton() {
   const {
-    toast
-  } = useToast();
+    status,
+    transportState,
+    attempts,
+    reconnect,
+    isConnected: connected,
+    connect,
+    disconnect,
+    retryNow,
+    cancelReconnect
+  } = useBotConnection();
   const pipecatClient = usePipecatClient();
+  const [reconnectCountdown, setReconnectCountdown] = useState(0);
 
-  // Helper function to determine if we're in a "connected" state
-  const isConnectedState = (state: TransportState): boolean => {
-    return state === "connected" || state === "ready";
-  };
-
-  // Detailed logging helper
-  const log = (level: 'info' | 'warn' | 'error', message: string, data?: any) => {
-    const timestamp = new Date().toISOString();
-    const prefix = `[${timestamp}] [ConnectionButton]`;
-    
-    switch (level) {
-      case 'info':
-        console.log(`${prefix} ℹ️ ${message}`, data || '');
-        break;
-      case 'warn':
-        console.warn(`${prefix} ⚠️ ${message}`, data || '');
-        break;
-      case 'error':
-        console.error(`${prefix} ❌ ${message}`, data || '');
-        break;
-    }
-  };
-
-  // Listen to transport state changes
-  useRTVIClientEvent(RTVIEvent.TransportStateChanged, useCallback((state: TransportState) => {
-    log('info', `Transport state changed: ${state}`);
-    setTransportState(state);
-
-    // Reset connecting state when we reach a final state
-    if (state === "connected" || state === "ready" || state === "disconnected" || state === "error") {
-      log('info', `Setting isConnecting to false due to state: ${state}`);
-      setIsConnecting(false);
-    }
-
-    // ✅ FIX: Consider both "connected" AND "ready" as connected
-    const connected = isConnectedState(state);
-    log('info', `Connection status: ${connected ? 'CONNECTED' : 'DISCONNECTED'}`);
-
-    // Notify parent component of connection changes
-    if (onConnectionChange) {
-      onConnectionChange(connected);
-    }
-
-    // Show appropriate toasts
-    if (state === "connected") {
-      log('info', 'Successfully connected to transport');
-      toast({
-        title: "Connected!",
-        description: "You are now connected to the video call."
-      });
-    } else if (state === "ready") {
-      log('info', 'Bot is ready for interaction');
-      toast({
-        title: "Ready!",
-        description: "Bot is ready for conversation."
-      });
-    } else if (state === "disconnected") {
-      log('warn', 'Disconnected from transport');
-      toast({
-        title: "Disconnected",
-        description: "You have been disconnected from the call.",
-        variant: "destructive"
-      });
-    } else if (state === "error") {
-      log('error', 'Transport error occurred');
-      toast({
-        title: "Connection Error",
-        description: "Failed to connect to the call. Please try again.",
-        variant: "destructive"
-      });
-    }
-  }, [onConnectionChange, toast]));
-
-  // Listen to bot ready event
-  useRTVIClientEvent(RTVIEvent.BotReady, useCallback(() => {
-    log('info', 'Bot ready event received');
-    toast({
-      title: "Bot Ready",
-      description: "The AI assistant is now ready to chat."
-    });
-  }, [toast]));
-
-  // Listen to client ready event  
-  useRTVIClientEvent(RTVIEvent.Connected, useCallback(() => {
-    log('info', 'Client connected event received');
-  }, []));
-
-  // Listen to error events
-  useRTVIClientEvent(RTVIEvent.Error, useCallback((error: any) => {
-    log('error', 'RTVI Error event received', error);
-    toast({
-      title: "RTVI Error",
-      description: `Error: ${error?.message || 'Unknown error occurred'}`,
-      variant: "destructive"
-    });
-  }, [toast]));
-
-  // Listen to disconnect events
-  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => {
-    log('warn', 'RTVI Disconnected event received');
-  }, []));
-
-  // Listen to bot events
-  useRTVIClientEvent(RTVIEvent.BotConnected, useCallback((participant: any) => {
-    log('info', 'Bot connected event received', participant);
-  }, []));
+  // Tick the visible countdown while a reconnect is pending
+  useEffect(() => {
+    if (!reconnect) return;
 
-  useRTVIClientEvent(RTVIEvent.BotDisconnected, useCallback((participant: any) => {
-    log('warn', 'Bot disconnected event received', participant);
-  }, []));
-
-  const testEndpoint = async (url: string) => {
-    try {
-      log('info', `Testing endpoint: ${url}`);
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
-      
-      log('info', `Endpoint test response:`, {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries())
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        log('info', 'Endpoint test successful', data);
-        return true;
-      } else {
-        const errorText = await response.text();
-        log('error', `Endpoint test failed: ${response.status} ${response.statusText}`, errorText);
-        return false;
-      }
-    } catch (error) {
-      log('error', 'Endpoint test threw exception', error);
-      return false;
-    }
-  };
-
-  const testConnectEndpoint = async (url: string, requestData: any) => {
-    try {
-      log('info', `Testing connect endpoint: ${url}`, requestData);
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify(requestData)
-      });
-      
-      log('info', `Connect endpoint response:`, {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries())
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        log('info', 'Connect endpoint test successful', data);
-        return { success: true, data };
-      } else {
-        const errorText = await response.text();
-        log('error', `Connect endpoint test failed: ${response.status} ${response.statusText}`, errorText);
-        return { success: false, error: errorText, status: response.status };
-      }
-    } catch (error) {
-      log('error', 'Connect endpoint test threw exception', error);
-      return { success: false, error: error.message };
-    }
-  };
-
-  const handleConnect = async () => {
-    try {
-      const attemptNumber = connectionAttempts + 1;
-      setConnectionAttempts(attemptNumber);
-      setIsConnecting(true);
-      
-      log('info', `🚀 Starting connection attempt #${attemptNumber}`);
-      
-      // Validate environment and client
-      if (!pipecatClient) {
-        throw new Error("Pipecat client is not available");
-      }
-      
-      const baseUrl = import.meta.env.VITE_PIPECAT_API_URL || "https://manjujayamurali--superbryn-form-bot-fastapi-app.modal.run";
-      const healthUrl = `${baseUrl}/`;
-      const connectUrl = `${baseUrl}/connect`;
-      
-      log('info', 'Environment check', {
-        baseUrl,
-        healthUrl,
-        connectUrl,
-        clientAvailable: !!pipecatClient
-      });
-
-      // Step 1: Test health endpoint
-      log('info', '📋 Step 1: Testing health endpoint...');
-      const healthCheck = await testEndpoint(healthUrl);
-      
-      if (!healthCheck) {
-        throw new Error("Health check failed - server may be unavailable");
-      }
-      
-      // Step 2: Test connect endpoint
-      log('info', '🔗 Step 2: Testing connect endpoint...');
-      const requestData = {}; // Empty since backend doesn't use the services config
-      
-      const connectTest = await testConnectEndpoint(connectUrl, requestData);
-      
-      if (!connectTest.success) {
-        throw new Error(`Connect endpoint failed: ${connectTest.error} (Status: ${connectTest.status})`);
-      }
-      
-      // Step 3: Attempt Pipecat connection
-      log('info', '🎯 Step 3: Initiating Pipecat client connection...');
-      
-      const connectionConfig = {
-        endpoint: connectUrl,
-        requestData: {}, // Empty object since backend doesn't use this data
-        timeout: 30000, // 30 second timeout
-        enableMic: true,
-        enableCam: false,
-      };
-      
-      log('info', 'Connection config', connectionConfig);
-      
-      // Set up additional error monitoring before connection
-      const originalOnError = window.onerror;
-      const originalOnUnhandledRejection = window.onunhandledrejection;
-      
-      window.onerror = (message, source, lineno, colno, error) => {
-        if (typeof source === 'string' && source.includes('pipecat') || 
-            typeof message === 'string' && message.includes('pipecat')) {
-          log('error', 'Window error during connection', { message, source, lineno, colno, error });
-        }
-        if (originalOnError) {
-          return originalOnError.call(window, message, source, lineno, colno, error);
-        }
-        return false;
-      };
-      
-      window.onunhandledrejection = (event) => {
-        if (event.reason?.message?.includes('transport') || event.reason?.message?.includes('Daily')) {
-          log('error', 'Unhandled rejection during connection', event.reason);
-        }
-        if (originalOnUnhandledRejection) {
-          return originalOnUnhandledRejection.call(window, event);
-        }
-      };
-      
-      try {
-        await pipecatClient.connect(connectionConfig);
-        log('info', '✅ Pipecat connection initiated successfully');
-      } finally {
-        // Restore original error handlers
-        window.onerror = originalOnError;
-        window.onunhandledrejection = originalOnUnhandledRejection;
-      }
-      
-    } catch (error) {
-      log('error', 'Connection failed with error', {
-        message: error.message,
-        stack: error.stack,
-        attempt: connectionAttempts + 1
-      });
-      
-      setIsConnecting(false);
-      
-      let errorMessage = "Unknown connection error";
-      let errorDescription = "Please check your network and try again.";
-      
-      if (error.message.includes("Health check failed")) {
-        errorMessage = "Server Unavailable";
-        errorDescription = "The bot server is not responding. Please try again in a moment.";
-      } else if (error.message.includes("Connect endpoint failed")) {
-        errorMessage = "Connection Endpoint Error";
-        errorDescription = error.message;
-      } else if (error.message.includes("not available")) {
-        errorMessage = "Client Error";
-        errorDescription = "Pipecat client initialization failed. Please refresh the page.";
-      } else {
-        errorMessage = "Connection Failed";
-        errorDescription = `${error.message}`;
-      }
-      
-      toast({
-        title: errorMessage,
-        description: errorDescription,
-        variant: "destructive"
-      });
-    }
-  };
-
-  const handleDisconnect = async () => {
-    try {
-      log('info', '🔌 Initiating disconnect...');
-      
-      if (!pipecatClient) {
-        log('warn', 'No pipecat client available for disconnect');
-        return;
-      }
-      
-      await pipecatClient.disconnect();
-      log('info', '✅ Disconnect successful');
-      
-      toast({
-        title: "Call ended",
-        description: "You have disconnected from the call.",
-        variant: "destructive"
-      });
-    } catch (error) {
-      log('error', 'Disconnect failed', error);
-      toast({
-        title: "Disconnect Error",
-        description: "Error while disconnecting. Please refresh the page.",
-        variant: "destructive"
-      });
-    }
-  };
+    const tick = () => setReconnectCountdown(Math.max(0, Math.ceil((reconnect.at - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [reconnect]);
 
   const handleToggleConnection = () => {
-    const connected = isConnectedState(transportState);
-    log('info', `Toggle connection - currently ${connected ? 'connected' : 'disconnected'}`);
-    
+    logConnection("info", `Toggle connection - currently ${connected ? "connected" : "disconnected"}`);
+
     if (connected) {
-      handleDisconnect();
+      disconnect();
     } else {
-      handleConnect();
+      connect();
     }
   };
 
-  const connected = isConnectedState(transportState);
-  const isConnectingOrInitializing = transportState === "connecting" || 
-                                    transportState === "initializing" || 
-                                    transportState === "initialized" || 
-                                    transportState === "authenticating" || 
-                                    transportState === "authenticated";
+  const isConnecting = !connected && status in STATUS_LABELS;
+  const isConnectingOrInitializing = isTransitionalTransportState(transportState);
   const isDisabled = isConnecting || isConnectingOrInitializing;
 
   // Status display helper
   const getStatusDisplay = () => {
-    if (isConnecting) return "Connecting...";
+    if (isConnecting) return STATUS_LABELS[status];
     if (isConnectingOrInitializing) return `${transportState}...`;
     return transportState;
   };
 
   const getStatusColor = () => {
     if (connected) return "text-green-600";
-    if (transportState === "error") return "text-red-600";
+    if (transportState === "error" || status === "error") return "text-red-600";
     if (isConnectingOrInitializing || isConnecting) return "text-yellow-600";
     return "text-gray-600";
   };
 
   return (
     <div className="flex flex-col items-center gap-4">
-      <Button 
-        onClick={handleToggleConnection} 
-        disabled={isDisabled} 
-        variant={connected ? "disconnect" : "connect"} 
-        size="default" 
+      <Button
+        onClick={handleToggleConnection}
+        disabled={isDisabled}
+        variant={connected ? "disconnect" : "connect"}
+        size="default"
         className="px-4 py-2 text-sm font-medium rounded-full shadow-elegant hover:shadow-glow transition-all duration-300 min-w-[120px]"
       >
         {isDisabled ? (
           <>
             <div className="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin" />
-            {transportState === "connecting" ? "Connecting..." : 
-             transportState === "ready" ? "Getting Ready..." : 
+            {transportState === "connecting" ? "Connecting..." :
+             transportState === "ready" ? "Getting Ready..." :
              "Initializing..."}
           </>
         ) : connected ? (
@@ -407,18 +92,35 @@ export function ConnectionButton({
           </>
         )}
       </Button>
-      
+
       <div className="text-center">
         <p className={`text-xs font-medium ${getStatusColor()}`}>
           Status: {getStatusDisplay()}
         </p>
-        {connectionAttempts > 0 && (
+        {attempts > 0 && (
           <p className="text-xs text-muted-foreground mt-1">
-            Attempts: {connectionAttempts}
+            Attempts: {attempts}
           </p>
         )}
       </div>
 
+      {reconnect && (
+        <div className="flex flex-col items-center gap-2 text-center">
+          <p className="text-xs text-yellow-600 flex items-center gap-1">
+            <RefreshCw size={12} className="animate-spin" />
+            Reconnecting in {reconnectCountdown}s (attempt {reconnect.attempt}/{reconnect.maxAttempts})
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={retryNow}>
+              Retry now
+            </Button>
+            <Button variant="ghost" size="sm" onClick={cancelReconnect}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Debug Panel - Only in development */}
       {process.env.NODE_ENV === 'development' && (
         <div className="mt-4 p-3 bg-muted/30 rounded-lg text-xs max-w-sm">
@@ -426,10 +128,10 @@ export function ConnectionButton({
             <summary className="cursor-pointer font-medium mb-2">Debug Info</summary>
             <div className="space-y-1">
               <p><strong>Transport State:</strong> {transportState}</p>
-              <p><strong>Is Connecting:</strong> {isConnecting ? 'Yes' : 'No'}</p>
+              <p><strong>Connection Status:</strong> {status}</p>
               <p><strong>Is Connected:</strong> {connected ? 'Yes' : 'No'}</p>
               <p><strong>Client Available:</strong> {pipecatClient ? 'Yes' : 'No'}</p>
-              <p><strong>Connection Attempts:</strong> {connectionAttempts}</p>
+              <p><strong>Connection Attempts:</strong> {attempts}</p>
               <p><strong>Base URL:</strong> {import.meta.env.VITE_PIPECAT_API_URL || "default"}</p>
             </div>
           </details>
@@ -437,4 +139,4 @@ export function ConnectionButton({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
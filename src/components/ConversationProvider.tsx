@@ -0,0 +1,445 @@
+import { type ReactNode, useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { usePipecatClient, useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { RTVIEvent, type BotLLMTextData, type TranscriptData } from "@pipecat-ai/client-js";
+import { useBotConnection } from "@/hooks/use-bot-connection";
+import { ConversationContext, type ConversationContextValue } from "@/hooks/use-conversation";
+import { type ChatPreferences, loadChatPreferences, saveChatPreferences } from "@/lib/chat-preferences";
+import {
+  type ChatMessage,
+  type ConversationSession,
+  type FormOutcome,
+  createSessionId,
+  isDeliveredMessage,
+  saveSession
+} from "@/lib/conversation-history";
+import type { FormDefinition } from "@/lib/form-schema";
+import { type SuggestedRepliesMessage, parseServerMessage } from "@/lib/form-protocol";
+
+// How many earlier messages are replayed to a new bot session after reconnecting
+const RESUME_HISTORY_LIMIT = 50;
+// Coalesces rapid transcript updates into one IndexedDB write
+const SAVE_DEBOUNCE_MS = 500;
+
+interface ConversationProviderProps {
+  definition: FormDefinition;
+  children: ReactNode;
+}
+
+export function ConversationProvider({ definition, children }: ConversationProviderProps) {
+  const { isConnected, status, reconnect } = useBotConnection();
+  const pipecatClient = usePipecatClient();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isListening, setIsListening] = useState(false);
+  const [preferences, setPreferences] = useState<ChatPreferences>(loadChatPreferences);
+  const [interimTranscript, setInterimTranscript] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<SuggestedRepliesMessage | null>(null);
+  const showInterimRef = useRef(preferences.showInterimTranscripts);
+  showInterimRef.current = preferences.showInterimTranscripts;
+  const [isBotResponding, setIsBotResponding] = useState(false);
+  const isBotRespondingRef = useRef(false);
+  // Message that bot transcript chunks of the current turn are merged into
+  const botTurnIdRef = useRef<string | null>(null);
+
+  // One stored session per call; automatic reconnects continue the same session.
+  // The last session is kept after the call ends so its transcript can still be exported.
+  const [session, setSession] = useState<ConversationSession | null>(null);
+  const sessionRef = useRef<ConversationSession | null>(null);
+  sessionRef.current = session;
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  messagesRef.current = messages;
+
+  const setBotResponding = useCallback((responding: boolean) => {
+    isBotRespondingRef.current = responding;
+    setIsBotResponding(responding);
+  }, []);
+
+  const stopStreaming = useCallback((turnId: string | null) => {
+    if (!turnId) return;
+    setMessages(prev => prev.map(message =>
+      message.id === turnId ? { ...message, streaming: false } : message
+    ));
+  }, []);
+
+  // Later chunks start a new bubble once the turn is closed
+  const closeBotTurn = useCallback(() => {
+    stopStreaming(botTurnIdRef.current);
+    botTurnIdRef.current = null;
+  }, [stopStreaming]);
+
+  // A half-finished utterance or reply never survives a dropped call
+  useEffect(() => {
+    if (!isConnected) {
+      setInterimTranscript(null);
+      setSuggestions(null);
+      setBotResponding(false);
+      closeBotTurn();
+    }
+  }, [isConnected, setBotResponding, closeBotTurn]);
+
+  // Start a fresh session for a new call, or replay the conversation after a reconnect
+  useEffect(() => {
+    if (!isConnected || !pipecatClient) return;
+
+    if (!sessionRef.current || sessionRef.current.endedAt) {
+      const started: ConversationSession = {
+        id: createSessionId(),
+        formId: definition.id,
+        formTitle: definition.title,
+        startedAt: new Date(),
+        endedAt: null,
+        outcome: "incomplete",
+        messages: []
+      };
+      console.log("🗂️ Starting conversation session:", started.id);
+      sessionRef.current = started;
+      setSession(started);
+      setMessages([]);
+      saveSession(started);
+      return;
+    }
+
+    // Queued messages are sent separately once the replay is done
+    const history = messagesRef.current
+      .filter(isDeliveredMessage)
+      .slice(-RESUME_HISTORY_LIMIT);
+    if (history.length === 0) return;
+
+    console.log(`🔁 Resuming conversation with ${history.length} earlier messages`);
+    try {
+      pipecatClient.sendClientMessage("resume_conversation", {
+        messages: history.map(message => ({
+          role: message.isOwn ? "user" : "assistant",
+          content: message.text,
+          timestamp: message.timestamp.toISOString()
+        })),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error("❌ Failed to resume conversation:", error);
+    }
+  }, [isConnected, pipecatClient, definition.id, definition.title]);
+
+  // The session ends once the call is over and no reconnect is pending
+  const isCallOver = !isConnected && !reconnect && (status === "idle" || status === "error");
+
+  useEffect(() => {
+    const active = sessionRef.current;
+    if (!isCallOver || !active || active.endedAt) return;
+
+    console.log("🗂️ Ending conversation session:", active.id);
+    const ended = { ...active, endedAt: new Date() };
+    sessionRef.current = ended;
+    setSession(ended);
+    // Nothing will deliver messages still waiting for a reconnect
+    setMessages(prev => prev.map(message =>
+      message.status === "queued" ? { ...message, status: "failed" } : message
+    ));
+  }, [isCallOver]);
+
+  // Persist the transcript as it grows
+  useEffect(() => {
+    if (!session) return;
+
+    const timer = setTimeout(() => saveSession({ ...session, messages }), SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [session, messages]);
+
+  // Leaving the page mid-call still records when the session ended
+  useEffect(() => {
+    return () => {
+      const active = sessionRef.current;
+      if (active && !active.endedAt) {
+        saveSession({ ...active, messages: messagesRef.current, endedAt: new Date() });
+      }
+    };
+  }, []);
+
+  const setFormOutcome = useCallback((outcome: FormOutcome) => {
+    setSession(prev => prev && !prev.endedAt ? { ...prev, outcome } : prev);
+  }, []);
+
+  const clearSuggestions = useCallback(() => setSuggestions(null), []);
+
+  const setShowInterimTranscripts = useCallback((showInterimTranscripts: boolean) => {
+    setPreferences(prev => {
+      const next = { ...prev, showInterimTranscripts };
+      saveChatPreferences(next);
+      return next;
+    });
+    if (!showInterimTranscripts) {
+      setInterimTranscript(null);
+    }
+  }, []);
+
+  // Listen to user transcription events (what the user says)
+  useRTVIClientEvent(
+    RTVIEvent.UserTranscript,
+    useCallback((data: TranscriptData) => {
+      console.log("🎤 User transcription event:", JSON.stringify(data, null, 2));
+
+      const transcriptText = data?.text || "";
+      const isFinal = data?.final ?? false;
+      const timestamp = data?.timestamp || Date.now();
+
+      console.log("Parsed transcript:", { transcriptText, isFinal, timestamp });
+
+      // Interim results only update the live bubble
+      if (!isFinal) {
+        if (showInterimRef.current && transcriptText.trim()) {
+          setInterimTranscript(transcriptText.trim());
+        }
+        return;
+      }
+
+      setInterimTranscript(null);
+
+      if (transcriptText && transcriptText.trim()) {
+        closeBotTurn();
+        setSuggestions(null);
+        console.log("✅ Adding final user transcript:", transcriptText);
+        const message: ChatMessage = {
+          id: `user-transcript-${Date.now()}-${Math.random()}`,
+          text: transcriptText.trim(),
+          timestamp: new Date(timestamp),
+          isOwn: true,
+          type: 'transcription',
+          final: true
+        };
+        setMessages(prev => [...prev, message]);
+      }
+    }, [closeBotTurn])
+  );
+
+  // Listen to bot transcription (what the bot says), merging each turn into one message
+  useRTVIClientEvent(
+    RTVIEvent.BotTranscript,
+    useCallback((data: BotLLMTextData) => {
+      console.log("🤖 Bot transcription event:", JSON.stringify(data, null, 2));
+
+      const chunk = data?.text?.trim() || "";
+      if (!chunk) return;
+
+      const turnId = botTurnIdRef.current;
+      if (turnId) {
+        console.log("✅ Appending to bot turn:", chunk);
+        setMessages(prev => prev.map(message =>
+          message.id === turnId ? { ...message, text: `${message.text} ${chunk}` } : message
+        ));
+        return;
+      }
+
+      console.log("✅ Starting bot turn:", chunk);
+      const message: ChatMessage = {
+        id: `bot-transcript-${Date.now()}-${Math.random()}`,
+        text: chunk,
+        timestamp: new Date(),
+        isOwn: false,
+        type: 'transcription',
+        streaming: isBotRespondingRef.current
+      };
+      botTurnIdRef.current = message.id;
+      setMessages(prev => [...prev, message]);
+    }, [])
+  );
+
+  // Rich replies (Markdown, quick replies, cards) arrive as their own bot message;
+  // suggested replies are kept until the user answers
+  useRTVIClientEvent(
+    RTVIEvent.ServerMessage,
+    useCallback((data: unknown) => {
+      const result = parseServerMessage(data);
+      if (result.error) return;
+
+      if (result.message.type === "suggested_replies") {
+        console.log("💡 Suggested replies received:", result.message.suggestions);
+        setSuggestions(result.message.suggestions.length > 0 ? result.message : null);
+        return;
+      }
+      if (result.message.type !== "chat_content") return;
+
+      const { text, quick_replies, cards } = result.message;
+      console.log("🧩 Rich chat content received:", result.message);
+
+      closeBotTurn();
+      const message: ChatMessage = {
+        id: `bot-content-${Date.now()}-${Math.random()}`,
+        text: text?.trim() ?? "",
+        timestamp: new Date(),
+        isOwn: false,
+        type: 'text',
+        content: { quick_replies, cards }
+      };
+      setMessages(prev => [...prev, message]);
+    }, [closeBotTurn])
+  );
+
+  // A new LLM response always starts a new bot turn
+  useRTVIClientEvent(
+    RTVIEvent.BotLlmStarted,
+    useCallback(() => {
+      console.log("🧠 Bot LLM started - new turn");
+      closeBotTurn();
+      setBotResponding(true);
+    }, [closeBotTurn, setBotResponding])
+  );
+
+  useRTVIClientEvent(
+    RTVIEvent.BotStartedSpeaking,
+    useCallback(() => {
+      setBotResponding(true);
+      if (botTurnIdRef.current) {
+        const turnId = botTurnIdRef.current;
+        setMessages(prev => prev.map(message =>
+          message.id === turnId ? { ...message, streaming: true } : message
+        ));
+      }
+    }, [setBotResponding])
+  );
+
+  // Keep the turn open so late transcript chunks still merge into it
+  useRTVIClientEvent(
+    RTVIEvent.BotStoppedSpeaking,
+    useCallback(() => {
+      setBotResponding(false);
+      stopStreaming(botTurnIdRef.current);
+    }, [setBotResponding, stopStreaming])
+  );
+
+  // Listen to user started/stopped speaking
+  useRTVIClientEvent(
+    RTVIEvent.UserStartedSpeaking,
+    useCallback(() => {
+      console.log("🎙️ User started speaking");
+      setIsListening(true);
+      closeBotTurn();
+    }, [closeBotTurn])
+  );
+
+  useRTVIClientEvent(
+    RTVIEvent.UserStoppedSpeaking,
+    useCallback(() => {
+      console.log("🔇 User stopped speaking");
+      setIsListening(false);
+    }, [])
+  );
+
+  const updateMessage = useCallback((id: string, changes: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, ...changes } : message));
+  }, []);
+
+  // Hand a typed message to the bot, tracking whether it got through
+  const deliverMessage = useCallback((message: ChatMessage) => {
+    if (!pipecatClient) return;
+
+    console.log("📤 Sending typed message to bot:", message.text);
+    updateMessage(message.id, { status: "pending" });
+
+    try {
+      pipecatClient.appendToContext({
+        role: "user",
+        content: message.text,
+        run_immediately: true
+      }).then(() => {
+        updateMessage(message.id, { status: "sent" });
+      }).catch((error) => {
+        console.error("❌ appendToContext failed:", error);
+        updateMessage(message.id, { status: "failed" });
+      });
+    } catch (error) {
+      console.error("❌ Failed to process message:", error);
+      updateMessage(message.id, { status: "failed" });
+    }
+  }, [pipecatClient, updateMessage]);
+
+  // Between connection attempts of an ongoing call, typed messages wait for the reconnect
+  const isReconnecting = !isConnected && !!session && !session.endedAt;
+
+  const sendMessage = useCallback((text: string) => {
+    const messageText = text.trim();
+    if (!messageText || (!isConnected && !isReconnecting)) return;
+
+    const userMessage: ChatMessage = {
+      id: `user-text-${Date.now()}`,
+      text: messageText,
+      timestamp: new Date(),
+      isOwn: true,
+      type: 'text',
+      status: isConnected ? "pending" : "queued"
+    };
+
+    closeBotTurn();
+    setSuggestions(null);
+    setMessages(prev => [...prev, userMessage]);
+
+    if (isConnected) {
+      deliverMessage(userMessage);
+    } else {
+      console.log("📥 Queued typed message until reconnected:", messageText);
+    }
+  }, [isConnected, isReconnecting, closeBotTurn, deliverMessage]);
+
+  const retryMessage = useCallback((id: string) => {
+    const message = messagesRef.current.find(item => item.id === id);
+    if (!message || message.status !== "failed") return;
+
+    if (isConnected) {
+      deliverMessage(message);
+    } else if (isReconnecting) {
+      updateMessage(id, { status: "queued" });
+    }
+  }, [isConnected, isReconnecting, deliverMessage, updateMessage]);
+
+  // Messages typed while offline go out once the call is back
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const queued = messagesRef.current.filter(message => message.status === "queued");
+    if (queued.length === 0) return;
+
+    console.log(`📤 Sending ${queued.length} queued messages`);
+    queued.forEach(deliverMessage);
+  }, [isConnected, deliverMessage]);
+
+  const isSendingMessage = useMemo(
+    () => messages.some(message => message.status === "pending"),
+    [messages]
+  );
+
+  const value = useMemo<ConversationContextValue>(() => ({
+    session,
+    messages,
+    interimTranscript,
+    isListening,
+    isBotResponding,
+    isSendingMessage,
+    isReconnecting,
+    suggestions,
+    preferences,
+    setShowInterimTranscripts,
+    sendMessage,
+    retryMessage,
+    setFormOutcome,
+    clearSuggestions
+  }), [
+    session,
+    messages,
+    interimTranscript,
+    isListening,
+    isBotResponding,
+    isSendingMessage,
+    isReconnecting,
+    suggestions,
+    preferences,
+    setShowInterimTranscripts,
+    sendMessage,
+    retryMessage,
+    setFormOutcome,
+    clearSuggestions
+  ]);
+
+  return (
+    <ConversationContext.Provider value={value}>
+      {children}
+    </ConversationContext.Provider>
+  );
+}
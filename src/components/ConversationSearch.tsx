@@ -0,0 +1,91 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { MessageSquare } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command";
+import { type ConversationSession, searchSessions } from "@/lib/conversation-history";
+
+interface ConversationSearchProps {
+  sessions: ConversationSession[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (sessionId: string, messageId: string) => void;
+}
+
+// How many matching messages are listed per session
+const MATCHES_PER_SESSION = 5;
+const SNIPPET_RADIUS = 60;
+
+// Cuts a long message down to the text around the first matching term
+const getSnippet = (text: string, query: string) => {
+  const term = query.toLowerCase().split(/\s+/).find(Boolean) ?? "";
+  const index = text.toLowerCase().indexOf(term);
+  if (index < 0 || text.length <= SNIPPET_RADIUS * 2) return text;
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+};
+
+export function ConversationSearch({ sessions, open, onOpenChange, onSelect }: ConversationSearchProps) {
+  const [query, setQuery] = useState("");
+  const results = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setQuery("");
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search conversations</DialogTitle>
+        {/* Matching is done by searchSessions, so cmdk's fuzzy filter is turned off */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search past conversations..."
+          />
+          <CommandList>
+            <CommandEmpty>
+              {query.trim() ? "No messages match your search." : "Type to search every saved transcript."}
+            </CommandEmpty>
+            {results.map(({ session, matches }) => (
+              <CommandGroup
+                key={session.id}
+                heading={`${session.formTitle} · ${format(session.startedAt, "PPP p")}`}
+              >
+                {matches.slice(0, MATCHES_PER_SESSION).map(message => (
+                  <CommandItem
+                    key={message.id}
+                    value={`${session.id}:${message.id}`}
+                    onSelect={() => {
+                      onSelect(session.id, message.id);
+                      handleOpenChange(false);
+                    }}
+                  >
+                    <MessageSquare className="text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="text-xs text-muted-foreground">
+                        {message.isOwn ? "You" : "Bot"} · {format(message.timestamp, "p")}
+                      </p>
+                      <p className="text-sm truncate">{getSnippet(message.text, query)}</p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useCallback, useEffect } from "react";
+import { Camera, Mic, Volume2, VideoOff } from "lucide-react";
+import { PipecatClientVideo, usePipecatClient, useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { RTVIEvent, type DeviceError } from "@pipecat-ai/client-js";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { DeviceSelect } from "@/components/DeviceSelect";
+import { useDevicePreferences } from "@/hooks/use-device-preferences";
+import { applyDevicePreferences, loadDevicePreferences } from "@/lib/device-preferences";
+
+// Audio levels rarely exceed ~0.3 while speaking, so scale them up for the meter
+const MIC_METER_GAIN = 300;
+
+const DEVICE_ERROR_MESSAGES: Record<string, string> = {
+  "permissions": "Permission to use your microphone or camera was denied. Allow access in your browser settings.",
+  "in-use": "Your microphone or camera is being used by another application.",
+  "not-found": "No microphone or camera was found.",
+  "undefined-mediadevices": "This browser does not support media devices."
+};
+
+export function DeviceCheck() {
+  const pipecatClient = usePipecatClient();
+  const {
+    availableMics,
+    availableCams,
+    availableSpeakers,
+    selectedMicId,
+    selectedCamId,
+    selectedSpeakerId,
+    isMicEnabled,
+    isCamEnabled,
+    selectMic,
+    selectCam,
+    selectSpeaker,
+    setMicEnabled,
+    setCamEnabled
+  } = useDevicePreferences();
+  const [isInitializing, setIsInitializing] = useState(true);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const [micLevel, setMicLevel] = useState(0);
+
+  // Ask for permission and start local media so the meter and preview are live
+  useEffect(() => {
+    if (!pipecatClient) return;
+
+    let cancelled = false;
+    // Release the preview devices unless a call has started using them meanwhile
+    const releaseDevices = () => {
+      if (pipecatClient.state !== "initialized") return;
+      pipecatClient.disconnect().catch(error => console.warn("⚠️ Failed to release preview devices:", error));
+    };
+
+    pipecatClient.initDevices()
+      .then(() => {
+        if (cancelled) {
+          releaseDevices();
+          return;
+        }
+        return applyDevicePreferences(pipecatClient, loadDevicePreferences());
+      })
+      .catch(error => {
+        console.error("❌ Failed to initialize devices:", error);
+        if (!cancelled) {
+          setDeviceError("Could not access your devices. Check your browser permissions and try again.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsInitializing(false);
+      });
+
+    return () => {
+      cancelled = true;
+      releaseDevices();
+    };
+  }, [pipecatClient]);
+
+  useRTVIClientEvent(RTVIEvent.LocalAudioLevel, useCallback((level: number) => {
+    setMicLevel(level);
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.DeviceError, useCallback((error: DeviceError) => {
+    console.warn("⚠️ Device error:", error);
+    setDeviceError(DEVICE_ERROR_MESSAGES[error.type] ?? error.message);
+  }, []));
+
+  const meterValue = isMicEnabled ? Math.min(100, Math.round(micLevel * MIC_METER_GAIN)) : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Camera preview */}
+      <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-muted">
+        {isCamEnabled ? (
+          <PipecatClientVideo participant="local" fit="cover" mirror className="h-full w-full" />
+        ) : (
+          <div className="flex h-full w-full flex-col items-center justify-center gap-2 text-muted-foreground">
+            <VideoOff size={32} />
+            <p className="text-sm">Camera is off</p>
+          </div>
+        )}
+      </div>
+
+      {deviceError && (
+        <p className="text-sm text-destructive">{deviceError}</p>
+      )}
+
+      {/* Toggles */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex items-center justify-between gap-2 rounded-lg border p-3">
+          <Label htmlFor="device-check-mic" className="flex items-center gap-2">
+            <Mic size={14} />
+            Microphone
+          </Label>
+          <Switch
+            id="device-check-mic"
+            checked={isMicEnabled}
+            onCheckedChange={setMicEnabled}
+            disabled={isInitializing}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2 rounded-lg border p-3">
+          <Label htmlFor="device-check-cam" className="flex items-center gap-2">
+            <Camera size={14} />
+            Camera
+          </Label>
+          <Switch
+            id="device-check-cam"
+            checked={isCamEnabled}
+            onCheckedChange={setCamEnabled}
+            disabled={isInitializing}
+          />
+        </div>
+      </div>
+
+      {/* Mic level */}
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          {isMicEnabled ? "Speak to test your microphone" : "Microphone is muted"}
+        </p>
+        <Progress value={meterValue} className="h-2" aria-label="Microphone level" />
+      </div>
+
+      {/* Devices */}
+      <div className="space-y-4">
+        <DeviceSelect
+          id="device-check-mic-select"
+          label="Microphone"
+          icon={Mic}
+          devices={availableMics}
+          selectedId={selectedMicId}
+          onChange={selectMic}
+          disabled={isInitializing}
+        />
+        <DeviceSelect
+          id="device-check-cam-select"
+          label="Camera"
+          icon={Camera}
+          devices={availableCams}
+          selectedId={selectedCamId}
+          onChange={selectCam}
+          disabled={isInitializing}
+        />
+        <DeviceSelect
+          id="device-check-speaker-select"
+          label="Speaker"
+          icon={Volume2}
+          devices={availableSpeakers}
+          selectedId={selectedSpeakerId}
+          onChange={selectSpeaker}
+          disabled={isInitializing}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Your choices are remembered and used the next time you connect.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { LucideIcon } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  devices: MediaDeviceInfo[];
+  selectedId?: string;
+  onChange: (deviceId: string) => void;
+  disabled?: boolean;
+}
+
+export function DeviceSelect({ id, label, icon: Icon, devices, selectedId, onChange, disabled }: DeviceSelectProps) {
+  // Browsers hide device ids until media permission has been granted
+  const selectable = devices.filter(device => device.deviceId);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="flex items-center gap-2">
+        <Icon size={14} />
+        {label}
+      </Label>
+      <Select
+        value={selectedId || undefined}
+        onValueChange={onChange}
+        disabled={disabled || selectable.length === 0}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue placeholder={selectable.length === 0 ? "No devices found" : "System default"} />
+        </SelectTrigger>
+        <SelectContent>
+          {selectable.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `${label} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { Keyboard, Mic, Sparkles } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { type FormFieldDefinition, type FormFieldValue, formatFieldValue } from "@/lib/form-schema";
+import { type FieldProvenance, type FieldSource, FIELD_SOURCE_LABELS, diffWords } from "@/lib/form-provenance";
+
+const SOURCE_ICONS: Record<FieldSource, typeof Mic> = {
+  typed: Keyboard,
+  spoken: Mic,
+  "bot-corrected": Sparkles
+};
+
+const SOURCE_STYLES: Record<FieldSource, string> = {
+  typed: "border-border/50 text-muted-foreground",
+  spoken: "border-primary/40 bg-primary/10 text-primary",
+  "bot-corrected": "border-yellow-600/40 bg-yellow-600/10 text-yellow-700"
+};
+
+interface FieldProvenanceBadgeProps {
+  provenance?: FieldProvenance;
+  className?: string;
+}
+
+export function FieldProvenanceBadge({ provenance, className }: FieldProvenanceBadgeProps) {
+  if (!provenance) return null;
+
+  const Icon = SOURCE_ICONS[provenance.source];
+
+  return (
+    <Badge variant="outline" className={cn("gap-1 font-medium", SOURCE_STYLES[provenance.source], className)}>
+      <Icon size={10} />
+      {FIELD_SOURCE_LABELS[provenance.source]}
+    </Badge>
+  );
+}
+
+interface FieldValueDiffProps {
+  field: FormFieldDefinition;
+  typedValue: FormFieldValue;
+  botValue: FormFieldValue;
+}
+
+// Shows what the user typed against what the bot recorded
+export function FieldValueDiff({ field, typedValue, botValue }: FieldValueDiffProps) {
+  const segments = diffWords(formatFieldValue(field, typedValue), formatFieldValue(field, botValue));
+
+  return (
+    <div className="rounded-lg border border-yellow-600/30 bg-yellow-600/5 p-3 text-sm">
+      <p className="text-xs font-medium text-yellow-700 mb-1">
+        The assistant changed your answer:
+      </p>
+      <p className="break-words whitespace-pre-wrap">
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={cn(
+              segment.type === "removed" && "bg-destructive/15 text-destructive line-through",
+              segment.type === "added" && "bg-green-600/15 text-green-700"
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
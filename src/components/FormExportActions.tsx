@@ -0,0 +1,44 @@
+import { FileJson, FileSpreadsheet, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  type FormSubmission,
+  downloadSubmissionCsv,
+  downloadSubmissionJson,
+  printSubmission
+} from "@/lib/form-export";
+
+interface FormExportActionsProps {
+  submission: FormSubmission;
+}
+
+export function FormExportActions({ submission }: FormExportActionsProps) {
+  const { toast } = useToast();
+
+  const handlePrint = () => {
+    if (!printSubmission(submission)) {
+      toast({
+        title: "Print Blocked",
+        description: "Please allow pop-ups for this site to open the print view.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      <Button type="button" variant="outline" size="sm" onClick={() => downloadSubmissionJson(submission)}>
+        <FileJson size={16} />
+        JSON
+      </Button>
+      <Button type="button" variant="outline" size="sm" onClick={() => downloadSubmissionCsv(submission)}>
+        <FileSpreadsheet size={16} />
+        CSV
+      </Button>
+      <Button type="button" variant="outline" size="sm" onClick={handlePrint}>
+        <Printer size={16} />
+        Print
+      </Button>
+    </div>
+  );
+}
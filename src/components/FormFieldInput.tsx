@@ -0,0 +1,226 @@
+import { useRef } from "react";
+import { format, isValid, parseISO } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import type { FormFieldDefinition, FormFieldValue } from "@/lib/form-schema";
+
+interface FormFieldInputProps {
+  field: FormFieldDefinition;
+  value: FormFieldValue | undefined;
+  onChange: (value: FormFieldValue) => void;
+  disabled?: boolean;
+}
+
+export function FormFieldInput({ field, value, onChange, disabled }: FormFieldInputProps) {
+  const textValue = typeof value === "string" ? value : "";
+  // Whether the slider reported a change during the current press
+  const sliderMovedRef = useRef(false);
+
+  switch (field.kind) {
+    case "text":
+    case "email":
+    case "phone":
+    case "url":
+      return (
+        <div className="space-y-2">
+          <Label htmlFor={field.id}>{field.label}</Label>
+          <Input
+            id={field.id}
+            type={field.kind === "phone" ? "tel" : field.kind}
+            inputMode={field.kind === "phone" ? "tel" : undefined}
+            placeholder={field.placeholder}
+            value={textValue}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full"
+            autoFocus
+            disabled={disabled}
+          />
+        </div>
+      );
+
+    case "textarea":
+      return (
+        <div className="space-y-2 flex-1">
+          <Label htmlFor={field.id}>{field.label}</Label>
+          <Textarea
+            id={field.id}
+            placeholder={field.placeholder}
+            value={textValue}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full h-32 resize-none"
+            autoFocus
+            disabled={disabled}
+          />
+        </div>
+      );
+
+    case "number": {
+      const numberValue = typeof value === "number" ? value : null;
+
+      // Bounded numbers (ratings, scores) read better as a slider
+      if (field.min !== undefined && field.max !== undefined) {
+        return (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={field.id}>{field.label}</Label>
+              <span className="text-sm font-medium">{numberValue ?? "—"}</span>
+            </div>
+            {/* Stays unset (faded thumb, "—") until the user picks a value */}
+            <Slider
+              id={field.id}
+              min={field.min}
+              max={field.max}
+              step={field.step ?? 1}
+              value={[numberValue ?? field.min]}
+              onPointerDown={() => {
+                sliderMovedRef.current = false;
+              }}
+              onValueChange={([next]) => {
+                sliderMovedRef.current = true;
+                onChange(next);
+              }}
+              // Pressing at the minimum reports no change, but still chooses it on an unset slider
+              onPointerUp={() => {
+                if (numberValue === null && !sliderMovedRef.current) onChange(field.min);
+              }}
+              className={cn(numberValue === null && "[&_[role=slider]]:opacity-40")}
+              aria-valuetext={numberValue === null ? "Not set" : undefined}
+              disabled={disabled}
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{field.min}</span>
+              <span>{field.max}</span>
+            </div>
+          </div>
+        );
+      }
+
+      return (
+        <div className="space-y-2">
+          <Label htmlFor={field.id}>{field.label}</Label>
+          <Input
+            id={field.id}
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            placeholder={field.placeholder}
+            value={numberValue ?? ""}
+            onChange={(e) => onChange(e.target.value === "" ? null : e.target.valueAsNumber)}
+            className="w-full"
+            autoFocus
+            disabled={disabled}
+          />
+        </div>
+      );
+    }
+
+    case "date": {
+      // Values filled from speech are not always ISO dates; show those as typed so the validation error makes sense
+      const parsedDate = textValue ? parseISO(textValue) : undefined;
+      const selectedDate = parsedDate && isValid(parsedDate) ? parsedDate : undefined;
+
+      return (
+        <div className="space-y-2 flex flex-col">
+          <Label htmlFor={field.id}>{field.label}</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                id={field.id}
+                type="button"
+                variant="outline"
+                className={cn("w-full justify-start text-left font-normal", !textValue && "text-muted-foreground")}
+                disabled={disabled}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {selectedDate ? format(selectedDate, "PPP") : textValue || field.placeholder || "Pick a date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={selectedDate}
+                onSelect={(date) => onChange(date ? format(date, "yyyy-MM-dd") : "")}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      );
+    }
+
+    case "select":
+      return (
+        <div className="space-y-2">
+          <Label htmlFor={field.id}>{field.label}</Label>
+          <Select value={textValue} onValueChange={onChange} disabled={disabled}>
+            <SelectTrigger id={field.id} className="w-full">
+              <SelectValue placeholder={field.placeholder || "Select an option"} />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+
+    case "multi-select": {
+      const selected = Array.isArray(value) ? value : [];
+      const toggleOption = (optionValue: string, checked: boolean) => {
+        onChange(checked
+          ? [...selected, optionValue]
+          : selected.filter(item => item !== optionValue));
+      };
+
+      return (
+        <div className="space-y-3">
+          <Label>{field.label}</Label>
+          <div className="grid sm:grid-cols-2 gap-3">
+            {field.options?.map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${field.id}-${option.value}`}
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={(checked) => toggleOption(option.value, checked === true)}
+                  disabled={disabled}
+                />
+                <Label htmlFor={`${field.id}-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    case "checkbox":
+      return (
+        <div className="flex items-center gap-3">
+          <Checkbox
+            id={field.id}
+            checked={value === true}
+            onCheckedChange={(checked) => onChange(checked === true)}
+            disabled={disabled}
+          />
+          <Label htmlFor={field.id}>{field.label}</Label>
+        </div>
+      );
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,72 @@
+import { Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FieldProvenanceBadge, FieldValueDiff } from "@/components/FieldProvenance";
+import {
+  type FormFieldDefinition,
+  type FormValues,
+  formatFieldValue,
+  getFieldShortLabel
+} from "@/lib/form-schema";
+import type { FormProvenance } from "@/lib/form-provenance";
+
+interface FormReviewProps {
+  fields: FormFieldDefinition[];
+  values: FormValues;
+  provenance?: FormProvenance;
+  onEdit: (fieldId: string) => void;
+  onConfirm: () => void;
+  isSubmitting?: boolean;
+  isConnected?: boolean;
+}
+
+export function FormReview({ fields, values, provenance = {}, onEdit, onConfirm, isSubmitting, isConnected }: FormReviewProps) {
+  return (
+    <div className="flex-1 flex flex-col gap-6">
+      <div className="bg-muted/50 rounded-lg divide-y divide-border/50">
+        {fields.map(field => (
+          <div key={field.id} className="flex items-start justify-between gap-4 p-4">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium">{getFieldShortLabel(field)}</p>
+                <FieldProvenanceBadge provenance={provenance[field.id]} />
+              </div>
+              <p className="text-sm text-muted-foreground break-words whitespace-pre-wrap">
+                {formatFieldValue(field, values[field.id]) || "Not provided"}
+              </p>
+              {provenance[field.id]?.source === "bot-corrected" && provenance[field.id].typedValue !== undefined && (
+                <FieldValueDiff
+                  field={field}
+                  typedValue={provenance[field.id].typedValue}
+                  botValue={values[field.id]}
+                />
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onEdit(field.id)}
+              disabled={isSubmitting}
+            >
+              <Pencil size={14} />
+              Edit
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        AI can make errors. Please check every answer, including ones the assistant filled in from your speech.
+      </p>
+
+      <Button
+        type="button"
+        onClick={onConfirm}
+        className="mt-auto"
+        disabled={!isConnected || isSubmitting}
+      >
+        {isSubmitting ? "Submitting..." : "Confirm & Submit"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { type FormFieldDefinition, getFieldShortLabel } from "@/lib/form-schema";
+
+interface FormStepIndicatorProps {
+  fields: FormFieldDefinition[];
+  currentField: string;
+  completedFields: string[];
+  canJumpTo: (fieldId: string) => boolean;
+  onJump: (fieldId: string) => void;
+  disabled?: boolean;
+}
+
+export function FormStepIndicator({
+  fields,
+  currentField,
+  completedFields,
+  canJumpTo,
+  onJump,
+  disabled
+}: FormStepIndicatorProps) {
+  return (
+    <ol className="flex flex-wrap items-center gap-2 mb-6">
+      {fields.map((field, index) => {
+        const isCurrent = field.id === currentField;
+        const isCompleted = completedFields.includes(field.id);
+        const isClickable = !disabled && !isCurrent && canJumpTo(field.id);
+
+        return (
+          <li key={field.id} className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => onJump(field.id)}
+              disabled={!isClickable}
+              aria-current={isCurrent ? "step" : undefined}
+              className={cn(
+                "flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+                isCurrent && "border-primary bg-primary/10 text-primary",
+                !isCurrent && isCompleted && "border-green-600/40 text-green-600",
+                !isCurrent && !isCompleted && "border-border/50 text-muted-foreground",
+                isClickable ? "hover:bg-muted cursor-pointer" : "cursor-default"
+              )}
+            >
+              <span
+                className={cn(
+                  "flex h-4 w-4 items-center justify-center rounded-full text-[10px]",
+                  isCompleted ? "bg-green-600 text-white" : "bg-muted text-foreground"
+                )}
+              >
+                {isCompleted ? <Check size={10} /> : index + 1}
+              </span>
+              {getFieldShortLabel(field)}
+            </button>
+            {index < fields.length - 1 && <span className="h-px w-3 bg-border" />}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
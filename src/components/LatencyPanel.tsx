@@ -0,0 +1,125 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from "@/components/ui/chart";
+import { useTurnMetrics } from "@/hooks/use-turn-metrics";
+import {
+  type TurnMetricKey,
+  TURN_METRIC_LABELS,
+  formatLatency,
+  isAnsweredTurn
+} from "@/lib/turn-metrics";
+
+const chartConfig = {
+  voiceToVoiceMs: { label: TURN_METRIC_LABELS.voiceToVoiceMs, color: "hsl(var(--primary))" },
+  transcriptMs: { label: TURN_METRIC_LABELS.transcriptMs, color: "hsl(var(--muted-foreground))" },
+  llmTtfbMs: { label: TURN_METRIC_LABELS.llmTtfbMs, color: "hsl(217 91% 60%)" },
+  ttsTtfbMs: { label: TURN_METRIC_LABELS.ttsTtfbMs, color: "hsl(38 92% 50%)" }
+} satisfies ChartConfig;
+
+const METRIC_KEYS = Object.keys(chartConfig) as TurnMetricKey[];
+
+export function LatencyPanel() {
+  const { turns, summary } = useTurnMetrics();
+  const voiceToVoice = summary.stats.voiceToVoiceMs;
+
+  const data = turns.filter(isAnsweredTurn).map((turn, index) => ({
+    turn: index + 1,
+    voiceToVoiceMs: turn.voiceToVoiceMs,
+    transcriptMs: turn.transcriptMs,
+    llmTtfbMs: turn.llmTtfbMs,
+    ttsTtfbMs: turn.ttsTtfbMs
+  }));
+  // Server metrics are optional; only chart what was actually measured
+  const measuredKeys = METRIC_KEYS.filter(key => summary.stats[key]);
+
+  if (data.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        Latency appears here after the bot answers your first spoken turn.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <div className="rounded-lg border border-border/50 p-3">
+          <p className="text-xs text-muted-foreground">Median response</p>
+          <p className="text-lg font-semibold">{formatLatency(voiceToVoice?.median)}</p>
+        </div>
+        <div className="rounded-lg border border-border/50 p-3">
+          <p className="text-xs text-muted-foreground">p95 response</p>
+          <p className="text-lg font-semibold">{formatLatency(voiceToVoice?.p95)}</p>
+        </div>
+        <div className="rounded-lg border border-border/50 p-3">
+          <p className="text-xs text-muted-foreground">Slowest</p>
+          <p className="text-lg font-semibold">{formatLatency(voiceToVoice?.max)}</p>
+        </div>
+        <div className="rounded-lg border border-border/50 p-3">
+          <p className="text-xs text-muted-foreground">Turns</p>
+          <p className="text-lg font-semibold">{summary.turnCount}</p>
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <LineChart data={data} margin={{ left: 8, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="turn" tickLine={false} axisLine={false} tickFormatter={turn => `#${turn}`} />
+          <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={value => formatLatency(value)} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `Turn ${payload?.[0]?.payload?.turn ?? ""}`}
+                formatter={(value, name) => (
+                  <div className="flex w-full justify-between gap-4">
+                    <span className="text-muted-foreground">{chartConfig[name as TurnMetricKey]?.label ?? name}</span>
+                    <span className="font-mono">{formatLatency(Number(value))}</span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {measuredKeys.map(key => (
+            <Line
+              key={key}
+              dataKey={key}
+              type="monotone"
+              stroke={`var(--color-${key})`}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr className="text-left">
+            <th className="font-medium py-1">Metric</th>
+            <th className="font-medium py-1 text-right">Median</th>
+            <th className="font-medium py-1 text-right">Average</th>
+            <th className="font-medium py-1 text-right">p95</th>
+          </tr>
+        </thead>
+        <tbody>
+          {measuredKeys.map(key => (
+            <tr key={key} className="border-t border-border/50">
+              <td className="py-1">{TURN_METRIC_LABELS[key]}</td>
+              <td className="py-1 text-right font-mono">{formatLatency(summary.stats[key]?.median)}</td>
+              <td className="py-1 text-right font-mono">{formatLatency(summary.stats[key]?.average)}</td>
+              <td className="py-1 text-right font-mono">{formatLatency(summary.stats[key]?.p95)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
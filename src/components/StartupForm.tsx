@@ -1,136 +1,246 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useBotConnection } from "@/hooks/use-bot-connection";
+import { useConversation } from "@/hooks/use-conversation";
+import { FormFieldInput } from "@/components/FormFieldInput";
+import { FormStepIndicator } from "@/components/FormStepIndicator";
+import { FormReview } from "@/components/FormReview";
+import { FieldProvenanceBadge, FieldValueDiff } from "@/components/FieldProvenance";
+import { FormExportActions } from "@/components/FormExportActions";
+import { SuggestionChips } from "@/components/SuggestionChips";
+import { ChevronLeft, History } from "lucide-react";
 import { usePipecatClient, useRTVIClientEvent } from "@pipecat-ai/client-react";
 import { RTVIEvent } from "@pipecat-ai/client-js";
+import {
+  type FormDefinition,
+  type FormFieldDefinition,
+  type FormFieldKind,
+  type FormFieldOption,
+  type FormFieldValue,
+  type FormValues,
+  createEmptyValues,
+  formatFieldValue,
+  getFieldDefinition,
+  getFieldIndex,
+  getFieldShortLabel,
+  getFirstField,
+  isEmptyValue,
+  isLastField,
+  normalizeFieldValue
+} from "@/lib/form-schema";
+import { type ValidationRule, validateField, validateForm } from "@/lib/form-validation";
+import {
+  type ServerFieldConfig,
+  type SuggestedReply,
+  getSuggestionText,
+  parseServerMessage,
+  parseServerResponse,
+  sendFormMessage
+} from "@/lib/form-protocol";
+import { clearFormDraft, loadFormDraft, saveFormDraft } from "@/lib/form-draft";
+import { type FormProvenance, resolveBotProvenance, typedProvenance } from "@/lib/form-provenance";
+import { buildFormSubmission } from "@/lib/form-export";
+import { startupForm } from "@/forms";
 
 interface StartupFormProps {
-  isConnected: boolean;
+  definition?: FormDefinition;
+  // Separates drafts of the same form; FormPage passes the tab's draft session key
+  draftKey?: string;
 }
 
-type FormField = "name" | "email" | "experience";
+type FormField = string;
 
 interface FormFieldConfig {
   field: FormField;
   label?: string;
   placeholder?: string;
   required?: boolean;
+  kind?: FormFieldKind;
+  options?: FormFieldOption[];
+  min?: number;
+  max?: number;
+  step?: number;
+  validation?: ValidationRule[];
 }
 
-interface ServerFormMessage {
-  type: "form_initialized";
-  current_field: FormField;
-  field_config: {
-    label: string;
-    placeholder: string;
-    required: boolean;
-  };
-}
+const getInitialFieldConfig = (field: FormFieldDefinition): FormFieldConfig => ({
+  field: field.id,
+  label: field.label,
+  placeholder: field.placeholder,
+  required: field.required
+});
 
-interface ServerResponseData {
-  status?: "success" | "error" | "complete";
-  field_id?: FormField;
-  value?: string;
-  next_field?: FormField | "complete";
-  next_field_config?: {
-    label: string;
-    placeholder: string;
-    required: boolean;
-  };
-  current_field_config?: {
-    label: string;
-    placeholder: string;
-    required: boolean;
-  };
-  error?: string;
-  validation_error?: string;
-  message?: string;
-  form_data?: Record<string, string>;
-  current_field?: FormField;
-}
+const hasDraftProgress = (values: FormValues, completedFields: FormField[]) =>
+  completedFields.length > 0 || Object.values(values).some(value => !isEmptyValue(value));
+
+// The bot may override how a field is rendered through its field_config
+const fromServerFieldConfig = (field: FormField, config: ServerFieldConfig): FormFieldConfig => ({
+  field,
+  label: config.label,
+  placeholder: config.placeholder,
+  required: config.required,
+  kind: config.type,
+  options: config.options as FormFieldOption[],
+  min: config.min,
+  max: config.max,
+  step: config.step,
+  validation: config.validation
+});
 
-export function StartupForm({ isConnected }: StartupFormProps) {
+export function StartupForm({ definition = startupForm, draftKey }: StartupFormProps) {
   const { toast } = useToast();
+  const { isConnected } = useBotConnection();
+  const { setFormOutcome, suggestions, clearSuggestions } = useConversation();
   const pipecatClient = usePipecatClient();
   
+  // Draft saved by a previous visit, used to seed the initial state
+  const [restoredDraft, setRestoredDraft] = useState(() => loadFormDraft(definition, draftKey));
+  
   // Form state
-  const [currentField, setCurrentField] = useState<FormField>("name");
-  const [fieldConfig, setFieldConfig] = useState<FormFieldConfig>({
-    field: "name",
-    label: "What's your name?",
-    placeholder: "Enter your full name",
-    required: true
-  });
+  const [currentField, setCurrentField] = useState<FormField>(() => restoredDraft?.currentField ?? getFirstField(definition).id);
+  const [fieldConfig, setFieldConfig] = useState<FormFieldConfig>(() =>
+    getInitialFieldConfig(getFieldDefinition(definition, restoredDraft?.currentField) ?? getFirstField(definition)));
   
-  const [formData, setFormData] = useState({
-    name: "",
-    email: "",
-    experience: ""
-  });
+  const [formData, setFormData] = useState<FormValues>(() => ({
+    ...createEmptyValues(definition),
+    ...restoredDraft?.values
+  }));
   
   const [validationError, setValidationError] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formComplete, setFormComplete] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [submittedAt, setSubmittedAt] = useState<Date | null>(null);
+  // Final values as recorded by the bot, when it sends them back
+  const [submittedData, setSubmittedData] = useState<FormValues | null>(null);
+  const [completedFields, setCompletedFields] = useState<FormField[]>(() => restoredDraft?.completedFields ?? []);
+  const [provenance, setProvenance] = useState<FormProvenance>(() => restoredDraft?.provenance ?? {});
+  
+  // Values sent with form_field_data, compared with what the bot accepts
+  const sentValues = useRef<Record<FormField, FormFieldValue>>({});
+  
+  // Latest field and server-provided configs, read from event handlers
+  const currentFieldRef = useRef<FormField>(currentField);
+  const serverFieldConfigs = useRef<Record<FormField, FormFieldConfig>>({});
+  // Field opened from the review step, which returns there once it is accepted
+  const editingFromReview = useRef<FormField | null>(null);
+  
+  useEffect(() => {
+    currentFieldRef.current = currentField;
+  }, [currentField]);
+  
+  // Keep the local draft in sync, dropping it once the form is submitted
+  useEffect(() => {
+    if (formComplete) {
+      clearFormDraft(definition.id, draftKey);
+      return;
+    }
+    
+    if (hasDraftProgress(formData, completedFields)) {
+      saveFormDraft(definition, {
+        values: formData,
+        currentField,
+        completedFields,
+        provenance
+      }, draftKey);
+    }
+  }, [definition, draftKey, formData, currentField, completedFields, provenance, formComplete]);
+  
+  const markFieldCompleted = useCallback((field: FormField) => {
+    setCompletedFields(prev => prev.includes(field) ? prev : [...prev, field]);
+  }, []);
+  
+  const applyServerFieldConfig = useCallback((field: FormField, config: ServerFieldConfig) => {
+    const nextConfig = fromServerFieldConfig(field, config);
+    serverFieldConfigs.current[field] = nextConfig;
+    setFieldConfig(nextConfig);
+  }, []);
 
   // Listen to server messages for form initialization
   useRTVIClientEvent(
     RTVIEvent.ServerMessage,
-    useCallback((data: any) => {
+    useCallback((data: unknown) => {
       console.log("📨 Server message received:", data);
       
-      // Check if this is a form initialization message
-      if (data?.type === "form_initialized") {
-        const formMessage = data as ServerFormMessage;
+      const result = parseServerMessage(data);
+      if (result.error) {
+        console.warn("⚠️ Invalid server message:", result.error, data);
+        return;
+      }
+      
+      const formMessage = result.message;
+      if (formMessage.type === "form_initialized") {
         console.log(`🔄 Initializing form with field: ${formMessage.current_field}`);
         
         setCurrentField(formMessage.current_field);
-        setFieldConfig({
-          field: formMessage.current_field,
-          label: formMessage.field_config.label,
-          placeholder: formMessage.field_config.placeholder,
-          required: formMessage.field_config.required
-        });
+        applyServerFieldConfig(formMessage.current_field, formMessage.field_config);
         
         setValidationError("");
         setFormComplete(false);
+        setIsReviewing(false);
       }
-    }, [])
+    }, [applyServerFieldConfig])
   );
 
   // Listen to server responses for form interactions
   useRTVIClientEvent(
     RTVIEvent.ServerResponse,
-    useCallback((data: any) => {
+    useCallback((data: unknown) => {
       console.log("📨 Server response received:", data);
       setIsSubmitting(false);
       
-      const responseData = data?.d as ServerResponseData;
-      if (!responseData) return;
+      const result = parseServerResponse(data);
+      if (result.error) {
+        console.warn("⚠️ Invalid server response:", result.error, data);
+        toast({
+          title: "Unexpected Server Response",
+          description: "The assistant sent a response this form could not understand.",
+          variant: "destructive"
+        });
+        return;
+      }
+      
+      const responseData = result.message;
 
       if (responseData.status === "success") {
         // Clear any validation errors
         setValidationError("");
+        const acceptedField = responseData.field_id ?? currentFieldRef.current;
+        markFieldCompleted(acceptedField);
+        
+        // Keep the value the bot accepted, which may have come from speech
+        if (responseData.field_id && responseData.value !== undefined) {
+          const fieldId = responseData.field_id;
+          const fieldProvenance = resolveBotProvenance(sentValues.current[fieldId], responseData.value);
+          delete sentValues.current[fieldId];
+          
+          setFormData(prev => ({
+            ...prev,
+            [fieldId]: responseData.value
+          }));
+          setProvenance(prev => ({
+            ...prev,
+            [fieldId]: fieldProvenance
+          }));
+        }
         
         // Handle successful field submission
-        if (responseData.next_field === "complete") {
-          setFormComplete(true);
+        if (editingFromReview.current === acceptedField) {
+          editingFromReview.current = null;
+          setIsReviewing(true);
+        } else if (responseData.next_field === "complete") {
+          // Nothing is submitted until the user confirms the review
+          setIsReviewing(true);
           toast({
-            title: "Form Complete!",
-            description: "Thank you for sharing your startup information."
+            title: "All Fields Collected",
+            description: "Please review your answers before submitting."
           });
         } else if (responseData.next_field && responseData.next_field_config) {
           // Move to next field
           setCurrentField(responseData.next_field);
-          setFieldConfig({
-            field: responseData.next_field,
-            label: responseData.next_field_config.label,
-            placeholder: responseData.next_field_config.placeholder,
-            required: responseData.next_field_config.required
-          });
+          applyServerFieldConfig(responseData.next_field, responseData.next_field_config);
           
           toast({
             title: "Field Updated!",
@@ -146,12 +256,7 @@ export function StartupForm({ isConnected }: StartupFormProps) {
         
         // Update field config if provided
         if (responseData.current_field_config) {
-          setFieldConfig(prev => ({
-            ...prev,
-            label: responseData.current_field_config!.label,
-            placeholder: responseData.current_field_config!.placeholder,
-            required: responseData.current_field_config!.required
-          }));
+          applyServerFieldConfig(currentFieldRef.current, responseData.current_field_config);
         }
         
         toast({
@@ -162,6 +267,10 @@ export function StartupForm({ isConnected }: StartupFormProps) {
         
       } else if (responseData.status === "complete") {
         setFormComplete(true);
+        setIsReviewing(false);
+        setSubmittedAt(new Date());
+        setFormOutcome("completed");
+        setSubmittedData(responseData.form_data ?? null);
         toast({
           title: "Form Submitted!",
           description: responseData.message || "Thank you for your submission."
@@ -172,32 +281,36 @@ export function StartupForm({ isConnected }: StartupFormProps) {
           console.log("Final form data:", responseData.form_data);
         }
       }
-    }, [toast])
+    }, [toast, markFieldCompleted, applyServerFieldConfig, setFormOutcome])
   );
 
-  const getDefaultLabel = (field: FormField): string => {
-    switch (field) {
-      case "name": return "What's your name?";
-      case "email": return "What's your email?";
-      case "experience": return "Tell us about your startup";
-      default: return "Please provide information";
-    }
-  };
-
-  const getDefaultPlaceholder = (field: FormField): string => {
-    switch (field) {
-      case "name": return "Enter your full name";
-      case "email": return "Enter your email address";
-      case "experience": return "Tell us about your current startup, role, challenges, and what you're looking to achieve...";
-      default: return "";
-    }
+  // Schema definition for the current field, with any server-provided config applied on top
+  const getCurrentFieldDefinition = (): FormFieldDefinition => {
+    const schemaField = getFieldDefinition(definition, currentField);
+    return {
+      id: currentField,
+      kind: fieldConfig.kind ?? schemaField?.kind ?? "text",
+      shortLabel: schemaField?.shortLabel,
+      validation: fieldConfig.validation ?? schemaField?.validation,
+      label: fieldConfig.label ?? schemaField?.label ?? "Please provide information",
+      placeholder: fieldConfig.placeholder ?? schemaField?.placeholder ?? "",
+      required: fieldConfig.required ?? schemaField?.required,
+      options: fieldConfig.options ?? schemaField?.options,
+      min: fieldConfig.min ?? schemaField?.min,
+      max: fieldConfig.max ?? schemaField?.max,
+      step: fieldConfig.step ?? schemaField?.step
+    };
   };
 
-  const handleChange = (field: string, value: string) => {
+  const handleChange = (field: string, value: FormFieldValue) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
+    setProvenance(prev => ({
+      ...prev,
+      [field]: typedProvenance()
+    }));
     
     // Clear validation error when user starts typing
     if (validationError) {
@@ -205,7 +318,7 @@ export function StartupForm({ isConnected }: StartupFormProps) {
     }
   };
 
-  const sendFieldData = (field: FormField, value: string) => {
+  const sendFieldData = (field: FormField, value: FormFieldValue) => {
     if (!isConnected || !pipecatClient) {
       toast({
         title: "Not Connected",
@@ -217,13 +330,14 @@ export function StartupForm({ isConnected }: StartupFormProps) {
     
     console.log(`📤 Sending ${field} data:`, value);
     setIsSubmitting(true);
+    sentValues.current[field] = value;
     
     // Send the field data to the bot using RTVI client messages
     try {
-      pipecatClient.sendClientMessage("form_field_data", {
-        field: field,
-        value: value,
-        timestamp: new Date().toISOString()
+      sendFormMessage(pipecatClient, {
+        type: "form_field_data",
+        field,
+        value
       });
     } catch (error) {
       console.error("❌ Failed to send field data:", error);
@@ -247,15 +361,67 @@ export function StartupForm({ isConnected }: StartupFormProps) {
       return;
     }
     
-    const currentValue = formData[currentField];
+    const currentValue = formData[currentField] ?? null;
+    const error = validateField(getCurrentFieldDefinition(), currentValue, formData);
     
-    if (!currentValue.trim()) {
-      setValidationError(`${fieldConfig.label?.replace('?', '')} is required`);
+    if (error) {
+      setValidationError(error);
       return;
     }
     
     // Send current field data
-    sendFieldData(currentField, currentValue.trim());
+    sendFieldData(currentField, normalizeFieldValue(currentValue));
+  };
+
+  // Bot suggestions for this field, or for whatever is being asked when no field is given
+  const fieldSuggestions = suggestions && (!suggestions.field || suggestions.field === currentField)
+    ? suggestions.suggestions
+    : [];
+
+  const handleSuggestion = (suggestion: SuggestedReply) => {
+    // Numbers, booleans and lists fill their fields as-is; anything else answers like the chat does
+    const isTypedValue = typeof suggestion.value === "number" ||
+      typeof suggestion.value === "boolean" ||
+      Array.isArray(suggestion.value);
+    const value = isTypedValue ? suggestion.value : getSuggestionText(suggestion);
+    handleChange(currentField, value);
+
+    const error = validateField(getCurrentFieldDefinition(), value, { ...formData, [currentField]: value });
+    if (error) {
+      setValidationError(error);
+      return;
+    }
+
+    clearSuggestions();
+    sendFieldData(currentField, normalizeFieldValue(value));
+  };
+
+  // Re-checks every answer, including cross-field rules, showing the first error
+  const validateAllFields = () => {
+    const fields = definition.fields.map(field => field.id === currentField ? getCurrentFieldDefinition() : field);
+    const errors = validateForm({ ...definition, fields }, formData);
+    const [invalidField] = Object.keys(errors);
+    if (invalidField) {
+      const field = fields.find(item => item.id === invalidField);
+      setValidationError(invalidField === currentField && !isReviewing
+        ? errors[invalidField]
+        : `${getFieldShortLabel(field)}: ${errors[invalidField]}`);
+      return false;
+    }
+    return true;
+  };
+
+  const handleReview = () => {
+    if (!validateAllFields()) return;
+    
+    setValidationError("");
+    setIsReviewing(true);
+  };
+
+  const handleEditFromReview = (field: FormField) => {
+    setIsReviewing(false);
+    handleJumpToField(field);
+    editingFromReview.current = field;
   };
 
   const handleCompleteForm = () => {
@@ -268,13 +434,16 @@ export function StartupForm({ isConnected }: StartupFormProps) {
       return;
     }
     
+    if (!validateAllFields()) return;
+    
     setIsSubmitting(true);
     
     // Send complete form data
     try {
-      pipecatClient.sendClientMessage("form_complete", {
-        data: formData,
-        timestamp: new Date().toISOString()
+      sendFormMessage(pipecatClient, {
+        type: "form_complete",
+        form_id: definition.id,
+        data: formData
       });
     } catch (error) {
       console.error("❌ Failed to complete form:", error);
@@ -287,21 +456,26 @@ export function StartupForm({ isConnected }: StartupFormProps) {
     }
   };
 
-  const handleReset = () => {
-    setFormData({
-      name: "",
-      email: "",
-      experience: ""
-    });
-    setCurrentField("name");
+  const resetFormState = () => {
+    const firstField = getFirstField(definition);
+    setFormData(createEmptyValues(definition));
+    setCurrentField(firstField.id);
     setValidationError("");
     setFormComplete(false);
-    setFieldConfig({
-      field: "name",
-      label: "What's your name?",
-      placeholder: "Enter your full name",
-      required: true
-    });
+    setIsReviewing(false);
+    setSubmittedAt(null);
+    setSubmittedData(null);
+    setCompletedFields([]);
+    setProvenance({});
+    sentValues.current = {};
+    serverFieldConfigs.current = {};
+    setFieldConfig(getInitialFieldConfig(firstField));
+    setRestoredDraft(null);
+    clearFormDraft(definition.id, draftKey);
+  };
+
+  const handleReset = () => {
+    resetFormState();
     
     toast({
       title: "Form Reset",
@@ -309,13 +483,65 @@ export function StartupForm({ isConnected }: StartupFormProps) {
     });
   };
 
+  const handleDiscardDraft = () => {
+    resetFormState();
+    
+    toast({
+      title: "Draft Discarded",
+      description: "Your saved answers have been removed."
+    });
+  };
+
+  // Fields up to the first unanswered one can be revisited
+  const canJumpTo = (field: FormField) => {
+    const furthestIndex = definition.fields.findIndex(item => !completedFields.includes(item.id));
+    const targetIndex = getFieldIndex(definition, field);
+    return targetIndex !== -1 && (furthestIndex === -1 || targetIndex <= furthestIndex);
+  };
+
+  const handleJumpToField = (field: FormField) => {
+    if (field === currentField || !canJumpTo(field)) return;
+    
+    editingFromReview.current = null;
+    const schemaField = getFieldDefinition(definition, field);
+    setCurrentField(field);
+    setFieldConfig(serverFieldConfigs.current[field] ?? getInitialFieldConfig(schemaField));
+    setValidationError("");
+    
+    // Let the bot know so it asks about the same field
+    if (isConnected && pipecatClient) {
+      try {
+        sendFormMessage(pipecatClient, { type: "jump_to_field", field });
+      } catch (error) {
+        console.error("❌ Failed to send field jump:", error);
+      }
+    }
+  };
+
+  const handleBack = () => {
+    const previousField = definition.fields[getFieldIndex(definition, currentField) - 1];
+    if (previousField) {
+      handleJumpToField(previousField.id);
+    }
+  };
+
   const requestCurrentField = () => {
     if (!isConnected || !pipecatClient) return;
     
     try {
-      pipecatClient.sendClientMessage("get_current_field", {
-        timestamp: new Date().toISOString()
-      });
+      // Re-sync saved progress first so a fresh bot session picks up where we left off
+      if (hasDraftProgress(formData, completedFields) && !formComplete) {
+        console.log("🔁 Re-syncing form draft with bot");
+        sendFormMessage(pipecatClient, {
+          type: "resume_form",
+          form_id: definition.id,
+          data: formData,
+          current_field: currentField,
+          completed_fields: completedFields
+        });
+      }
+      
+      sendFormMessage(pipecatClient, { type: "get_current_field" });
     } catch (error) {
       console.error("❌ Failed to get current field:", error);
     }
@@ -334,67 +560,36 @@ export function StartupForm({ isConnected }: StartupFormProps) {
   }, [isConnected]);
 
   const canSubmit = () => {
-    const currentValue = formData[currentField];
-    return isConnected && currentValue.trim() !== "" && !isSubmitting && !formComplete;
+    const hasValue = !isEmptyValue(formData[currentField]) || !getCurrentFieldDefinition().required;
+    return isConnected && hasValue && !isSubmitting && !formComplete;
   };
 
+  // What was submitted: the bot's record of the form, falling back to local answers
+  const finalValues: FormValues = { ...formData, ...submittedData };
+
   const renderField = () => {
-    const currentValue = formData[currentField];
+    const field = getCurrentFieldDefinition();
+    const fieldProvenance = provenance[field.id];
     
-    switch (currentField) {
-      case "name":
-        return (
-          <div className="space-y-2">
-            <Label htmlFor="name">{fieldConfig.label}</Label>
-            <Input
-              id="name"
-              type="text"
-              placeholder={fieldConfig.placeholder}
-              value={currentValue}
-              onChange={(e) => handleChange("name", e.target.value)}
-              className="w-full"
-              autoFocus
-              disabled={formComplete}
-            />
-          </div>
-        );
-        
-      case "email":
-        return (
-          <div className="space-y-2">
-            <Label htmlFor="email">{fieldConfig.label}</Label>
-            <Input
-              id="email"
-              type="email"
-              placeholder={fieldConfig.placeholder}
-              value={currentValue}
-              onChange={(e) => handleChange("email", e.target.value)}
-              className="w-full"
-              autoFocus
-              disabled={formComplete}
-            />
-          </div>
-        );
-        
-      case "experience":
-        return (
-          <div className="space-y-2 flex-1">
-            <Label htmlFor="experience">{fieldConfig.label}</Label>
-            <Textarea
-              id="experience"
-              placeholder={fieldConfig.placeholder}
-              value={currentValue}
-              onChange={(e) => handleChange("experience", e.target.value)}
-              className="w-full h-32 resize-none"
-              autoFocus
-              disabled={formComplete}
-            />
-          </div>
-        );
-        
-      default:
-        return null;
-    }
+    return (
+      <div className="space-y-3">
+        <FormFieldInput
+          key={field.id}
+          field={field}
+          value={formData[field.id]}
+          onChange={(value) => handleChange(field.id, value)}
+          disabled={formComplete}
+        />
+        <FieldProvenanceBadge provenance={fieldProvenance} />
+        {fieldProvenance?.source === "bot-corrected" && fieldProvenance.typedValue !== undefined && (
+          <FieldValueDiff
+            field={field}
+            typedValue={fieldProvenance.typedValue}
+            botValue={formData[field.id]}
+          />
+        )}
+      </div>
+    );
   };
 
   return (
@@ -402,12 +597,16 @@ export function StartupForm({ isConnected }: StartupFormProps) {
       <div className="h-full flex flex-col">
         <div className="mb-6">
           <h2 className="text-2xl font-bold mb-2">
-            {formComplete ? "Form Complete! 🎉" : fieldConfig.label}
+            {formComplete
+              ? definition.completionTitle ?? "Form Complete! 🎉"
+              : isReviewing ? "Review your answers" : fieldConfig.label}
           </h2>
           <p className="text-muted-foreground">
             {formComplete 
-              ? "Thank you for sharing your startup information!"
-              : `Currently collecting: ${currentField} field`
+              ? definition.completionMessage ?? "Thank you for your submission!"
+              : isReviewing
+                ? "Check everything below, then confirm to submit"
+                : `Currently collecting: ${currentField} field`
             }
           </p>
           {!isConnected && (
@@ -423,6 +622,35 @@ export function StartupForm({ isConnected }: StartupFormProps) {
           )}
         </div>
 
+        {restoredDraft && !formComplete && (
+          <div className="mb-4 flex items-center justify-between gap-3 rounded-lg border border-border/50 bg-muted/50 p-3 text-sm">
+            <span className="flex items-center gap-2 text-muted-foreground">
+              <History size={16} />
+              Restored your draft from {new Date(restoredDraft.updatedAt).toLocaleString()}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleDiscardDraft}
+              disabled={isSubmitting}
+            >
+              Discard draft
+            </Button>
+          </div>
+        )}
+
+        {!formComplete && !isReviewing && (
+          <FormStepIndicator
+            fields={definition.fields}
+            currentField={currentField}
+            completedFields={completedFields}
+            canJumpTo={canJumpTo}
+            onJump={handleJumpToField}
+            disabled={isSubmitting}
+          />
+        )}
+
         {formComplete ? (
           <div className="flex-1 flex flex-col items-center justify-center space-y-4">
             <div className="text-center">
@@ -430,19 +658,25 @@ export function StartupForm({ isConnected }: StartupFormProps) {
                 ✅ Submission Successful
               </h3>
               <p className="text-muted-foreground mb-4">
-                Your startup information has been collected successfully.
+                Your information has been collected successfully.
               </p>
               
               <div className="bg-muted/50 rounded-lg p-4 text-left">
                 <h4 className="font-medium mb-2">Collected Information:</h4>
                 <div className="space-y-1 text-sm">
-                  <p><strong>Name:</strong> {formData.name || "Not provided"}</p>
-                  <p><strong>Email:</strong> {formData.email || "Not provided"}</p>
-                  <p><strong>Experience:</strong> {formData.experience || "Not provided"}</p>
+                  {definition.fields.map(field => (
+                    <p key={field.id}>
+                      <strong>{getFieldShortLabel(field)}:</strong> {formatFieldValue(field, finalValues[field.id]) || "Not provided"}
+                    </p>
+                  ))}
                 </div>
               </div>
             </div>
             
+            <FormExportActions
+              submission={buildFormSubmission(definition, finalValues, provenance, submittedAt ?? new Date())}
+            />
+            
             <Button 
               onClick={handleReset}
               variant="outline"
@@ -451,9 +685,33 @@ export function StartupForm({ isConnected }: StartupFormProps) {
               Start New Form
             </Button>
           </div>
+        ) : isReviewing ? (
+          <div className="flex-1 flex flex-col gap-4">
+            {validationError && (
+              <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg p-3">
+                {validationError}
+              </div>
+            )}
+            
+            <FormReview
+              fields={definition.fields}
+              values={formData}
+              provenance={provenance}
+              onEdit={handleEditFromReview}
+              onConfirm={handleCompleteForm}
+              isSubmitting={isSubmitting}
+              isConnected={isConnected}
+            />
+          </div>
         ) : (
           <form onSubmit={handleSubmit} className="flex-1 flex flex-col gap-6">
             {renderField()}
+
+            <SuggestionChips
+              suggestions={fieldSuggestions}
+              onSelect={handleSuggestion}
+              disabled={!isConnected || isSubmitting}
+            />
             
             {validationError && (
               <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg p-3">
@@ -462,6 +720,18 @@ export function StartupForm({ isConnected }: StartupFormProps) {
             )}
 
             <div className="flex gap-3 mt-auto">
+              {getFieldIndex(definition, currentField) > 0 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleBack}
+                  disabled={isSubmitting}
+                >
+                  <ChevronLeft size={16} />
+                  Back
+                </Button>
+              )}
+              
               <Button 
                 type="button"
                 variant="outline"
@@ -472,14 +742,14 @@ export function StartupForm({ isConnected }: StartupFormProps) {
                 Reset Form
               </Button>
               
-              {currentField === "experience" && formData.experience ? (
+              {isLastField(definition, currentField) && (!isEmptyValue(formData[currentField]) || !getCurrentFieldDefinition().required) ? (
                 <Button 
                   type="button"
-                  onClick={handleCompleteForm}
+                  onClick={handleReview}
                   className="flex-1"
-                  disabled={!isConnected || isSubmitting}
+                  disabled={isSubmitting}
                 >
-                  {isSubmitting ? "Submitting..." : "Complete Form"}
+                  Review Answers
                 </Button>
               ) : (
                 <Button 
@@ -489,7 +759,7 @@ export function StartupForm({ isConnected }: StartupFormProps) {
                 >
                   {isSubmitting 
                     ? "Sending..." 
-                    : `Send ${currentField.charAt(0).toUpperCase() + currentField.slice(1)}`
+                    : `Send ${getFieldShortLabel(getCurrentFieldDefinition())}`
                   }
                 </Button>
               )}
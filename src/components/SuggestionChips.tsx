@@ -0,0 +1,36 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SuggestionChipsProps<T extends { label?: string }> {
+  suggestions: T[];
+  onSelect?: (suggestion: T) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function SuggestionChips<T extends { label?: string }>({
+  suggestions,
+  onSelect,
+  disabled,
+  className
+}: SuggestionChipsProps<T>) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {suggestions.map((suggestion, index) => (
+        <Button
+          key={`${suggestion.label}-${index}`}
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 rounded-full bg-background/60 text-foreground"
+          disabled={disabled || !onSelect}
+          onClick={() => onSelect?.(suggestion)}
+        >
+          {suggestion.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
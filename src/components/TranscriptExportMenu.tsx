@@ -0,0 +1,64 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import type { ChatMessage, ConversationSession } from "@/lib/conversation-history";
+import {
+  type TranscriptFormat,
+  TRANSCRIPT_FORMAT_LABELS,
+  buildTranscript,
+  downloadTranscript
+} from "@/lib/transcript-export";
+
+interface TranscriptExportMenuProps {
+  session: ConversationSession | null;
+  messages: ChatMessage[];
+}
+
+const TEXT_FORMATS: TranscriptFormat[] = ["txt", "md", "json"];
+const SUBTITLE_FORMATS: TranscriptFormat[] = ["vtt", "srt"];
+
+export function TranscriptExportMenu({ session, messages }: TranscriptExportMenuProps) {
+  const handleExport = (format: TranscriptFormat) => {
+    if (!session) return;
+    downloadTranscript(buildTranscript(session, messages), format);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={!session || messages.length === 0}
+          aria-label="Export transcript"
+        >
+          <Download size={14} />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Transcript</DropdownMenuLabel>
+        {TEXT_FORMATS.map(format => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {TRANSCRIPT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Subtitles (from call start)</DropdownMenuLabel>
+        {SUBTITLE_FORMATS.map(format => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {TRANSCRIPT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,132 @@
+import { type ReactNode, useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { RTVIEvent, type PipecatMetricsData, type TranscriptData } from "@pipecat-ai/client-js";
+import { useToast } from "@/hooks/use-toast";
+import { useBotConnection } from "@/hooks/use-bot-connection";
+import { useConversation } from "@/hooks/use-conversation";
+import { TurnMetricsContext, type TurnMetricsContextValue } from "@/hooks/use-turn-metrics";
+import {
+  type TurnTiming,
+  createTurnTiming,
+  formatLatency,
+  getServiceTtfb,
+  isAnsweredTurn,
+  summarizeTurns
+} from "@/lib/turn-metrics";
+
+const elapsedSince = (turn: TurnTiming) => Math.round(performance.now() - turn.userStoppedAt);
+
+// Applies an update to the turn still waiting for the bot, if any
+const updateOpenTurn = (turns: TurnTiming[], update: (turn: TurnTiming) => TurnTiming) => {
+  const last = turns[turns.length - 1];
+  if (!last || isAnsweredTurn(last)) return turns;
+  return [...turns.slice(0, -1), update(last)];
+};
+
+interface TurnMetricsProviderProps {
+  children: ReactNode;
+}
+
+export function TurnMetricsProvider({ children }: TurnMetricsProviderProps) {
+  const { toast } = useToast();
+  const { isConnected } = useBotConnection();
+  const { session } = useConversation();
+  const [turns, setTurns] = useState<TurnTiming[]>([]);
+  const turnsRef = useRef<TurnTiming[]>(turns);
+  turnsRef.current = turns;
+
+  // Each call is measured on its own
+  const sessionId = session?.id;
+  useEffect(() => {
+    setTurns([]);
+  }, [sessionId]);
+
+  // A turn the bot never answered before the call dropped has no latency to report
+  useEffect(() => {
+    if (!isConnected) {
+      setTurns(prev => {
+        const last = prev[prev.length - 1];
+        return last && !isAnsweredTurn(last) ? prev.slice(0, -1) : prev;
+      });
+    }
+  }, [isConnected]);
+
+  // Summarise once the call is over
+  const endedAt = session?.endedAt;
+  useEffect(() => {
+    if (!endedAt) return;
+
+    const summary = summarizeTurns(turnsRef.current);
+    const voiceToVoice = summary.stats.voiceToVoiceMs;
+    if (!voiceToVoice) return;
+
+    console.log("⏱️ Call latency summary:", summary);
+    toast({
+      title: "Call latency",
+      description: `Median response ${formatLatency(voiceToVoice.median)} (p95 ${formatLatency(voiceToVoice.p95)}) over ${summary.turnCount} turns.`
+    });
+  }, [endedAt, toast]);
+
+  // The user may pause and carry on; only their last stop before the bot answers counts
+  useRTVIClientEvent(
+    RTVIEvent.UserStoppedSpeaking,
+    useCallback(() => {
+      setTurns(prev => {
+        const last = prev[prev.length - 1];
+        const turn = createTurnTiming();
+        return last && !isAnsweredTurn(last) ? [...prev.slice(0, -1), turn] : [...prev, turn];
+      });
+    }, [])
+  );
+
+  useRTVIClientEvent(
+    RTVIEvent.UserTranscript,
+    useCallback((data: TranscriptData) => {
+      if (!data?.final) return;
+      setTurns(prev => updateOpenTurn(prev, turn =>
+        turn.transcriptMs === undefined ? { ...turn, transcriptMs: elapsedSince(turn) } : turn
+      ));
+    }, [])
+  );
+
+  useRTVIClientEvent(
+    RTVIEvent.BotStartedSpeaking,
+    useCallback(() => {
+      setTurns(prev => updateOpenTurn(prev, turn => {
+        const voiceToVoiceMs = elapsedSince(turn);
+        console.log(`⏱️ Voice-to-voice latency: ${voiceToVoiceMs} ms`);
+        return { ...turn, voiceToVoiceMs };
+      }));
+    }, [])
+  );
+
+  // Server metrics may arrive after the bot started speaking, so they go to the latest turn
+  useRTVIClientEvent(
+    RTVIEvent.Metrics,
+    useCallback((data: PipecatMetricsData) => {
+      const { llmTtfbMs, ttsTtfbMs } = getServiceTtfb(data);
+      if (llmTtfbMs === undefined && ttsTtfbMs === undefined) return;
+
+      setTurns(prev => {
+        const last = prev[prev.length - 1];
+        if (!last) return prev;
+        return [...prev.slice(0, -1), {
+          ...last,
+          llmTtfbMs: last.llmTtfbMs ?? llmTtfbMs,
+          ttsTtfbMs: last.ttsTtfbMs ?? ttsTtfbMs
+        }];
+      });
+    }, [])
+  );
+
+  const value = useMemo<TurnMetricsContextValue>(() => ({
+    turns,
+    summary: summarizeTurns(turns)
+  }), [turns]);
+
+  return (
+    <TurnMetricsContext.Provider value={value}>
+      {children}
+    </TurnMetricsContext.Provider>
+  );
+}
@@ -1,26 +1,44 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { StartupForm } from "./StartupForm";
 import { ChatConsole } from "./ChatConsole";
 import { ConnectionButton } from "./ConnectionButton";
 import { WelcomeBanner } from "./WelcomeBanner";
+import { DeviceCheck } from "./DeviceCheck";
+import { CallControls } from "./CallControls";
+import { VideoStage } from "./VideoStage";
+import { LatencyPanel } from "./LatencyPanel";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { MessageCircle } from "lucide-react";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Activity, MessageCircle, Settings2 } from "lucide-react";
 import { RTVIEvent } from "@pipecat-ai/client-js";
 import { useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { Link } from "react-router-dom";
+import { useBotConnection } from "@/hooks/use-bot-connection";
+import { useTurnMetrics } from "@/hooks/use-turn-metrics";
+import type { FormDefinition } from "@/lib/form-schema";
 
-export function VideoCallApp() {
-  const [isConnected, setIsConnected] = useState(false);
+interface VideoCallAppProps {
+  definition: FormDefinition;
+  // Keys the locally saved form draft, see getDraftSessionKey
+  draftKey?: string;
+}
+
+export function VideoCallApp({ definition, draftKey }: VideoCallAppProps) {
+  const { isConnected, status, reconnect } = useBotConnection();
+  // Navigating away ends the call, so links stay hidden until it is over
+  const isInCall = isConnected || !!reconnect || (status !== "idle" && status !== "error");
+  const { turns } = useTurnMetrics();
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isBotSpeaking, setIsBotSpeaking] = useState(false);
 
-  const handleConnectionChange = (connected: boolean) => {
-    setIsConnected(connected);
-    // Reset bot speaking state when disconnected
-    if (!connected) {
+  // Reset bot speaking state when disconnected
+  useEffect(() => {
+    if (!isConnected) {
       setIsBotSpeaking(false);
     }
-  };
+  }, [isConnected]);
 
   // Listen to bot started speaking event
   useRTVIClientEvent(
@@ -59,21 +77,90 @@ export function VideoCallApp() {
             <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent mb-2">
               SuperBryn- Bryn storm
             </h1>
+            <p className="text-sm text-muted-foreground">
+              {definition.title}
+              {!isInCall && (
+                <>
+                  {" · "}<Link to="/" className="underline hover:text-foreground">Choose another form</Link>
+                  {" · "}<Link to="/history" className="underline hover:text-foreground">History</Link>
+                </>
+              )}
+            </p>
           </div>
           
           {/* Connection Button - Top Right */}
-          <div className="flex-shrink-0">
-            <ConnectionButton onConnectionChange={handleConnectionChange} />
+          <div className="flex-shrink-0 flex flex-col items-center gap-2">
+            <ConnectionButton />
+
+            {/* Pre-call device check */}
+            {!isConnected && (
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <Settings2 size={14} />
+                    Check devices
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>Check your devices</DialogTitle>
+                    <DialogDescription>
+                      Choose your microphone, camera and speaker before joining the call.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DeviceCheck />
+                </DialogContent>
+              </Dialog>
+            )}
+
+            {/* Turn latency of the current or last call */}
+            {(isConnected || turns.length > 0) && (
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <Activity size={14} />
+                    Latency
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl">
+                  <DialogHeader>
+                    <DialogTitle>Response latency</DialogTitle>
+                    <DialogDescription>
+                      Time from when you stop speaking until the bot starts answering, per turn.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <LatencyPanel />
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
         </div>
 
-        {/* Main Content */}
-        <div className="flex justify-center h-[calc(100vh-200px)]">
-          {/* Form Section - Full Width */}
-          <div className="w-full max-w-2xl">
-            <StartupForm isConnected={isConnected} />
+        {/* In-call controls */}
+        {isConnected && (
+          <div className="flex justify-center mb-4">
+            <CallControls />
           </div>
-        </div>
+        )}
+
+        {/* Main Content */}
+        <ResizablePanelGroup direction="horizontal" className="h-[calc(100vh-200px)]">
+          {/* Video Section */}
+          <ResizablePanel defaultSize={40} minSize={20}>
+            <div className="h-full pr-4">
+              <VideoStage isBotSpeaking={isBotSpeaking} />
+            </div>
+          </ResizablePanel>
+
+          <ResizableHandle withHandle />
+
+          {/* Form Section */}
+          <ResizablePanel defaultSize={60} minSize={35}>
+            <div className="h-full flex pl-4 overflow-y-auto">
+              <StartupForm definition={definition} draftKey={draftKey} />
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
 
         {/* Floating Chat Button */}
         <Sheet open={isChatOpen} onOpenChange={setIsChatOpen}>
@@ -95,7 +182,7 @@ export function VideoCallApp() {
               <SheetTitle>Chat Console</SheetTitle>
             </SheetHeader>
             <div className="h-[calc(100vh-80px)]">
-              <ChatConsole isConnected={isConnected} />
+              <ChatConsole />
             </div>
           </SheetContent>
         </Sheet>
@@ -0,0 +1,153 @@
+import { type ReactNode, useState, useEffect, useRef } from "react";
+import { Bot, PictureInPicture2, User, VideoOff } from "lucide-react";
+import { PipecatClientVideo, usePipecatClientCamControl, usePipecatClientMediaTrack } from "@pipecat-ai/client-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useBotConnection } from "@/hooks/use-bot-connection";
+import { AudioVisualizer } from "@/components/AudioVisualizer";
+import { cn } from "@/lib/utils";
+
+interface VideoTileProps {
+  participant: "local" | "bot";
+  label: string;
+  hasVideo: boolean;
+  placeholder: ReactNode;
+  visualizer?: ReactNode;
+  isSpeaking?: boolean;
+  mirror?: boolean;
+}
+
+const supportsPictureInPicture = () =>
+  typeof document !== "undefined" && document.pictureInPictureEnabled;
+
+function VideoTile({ participant, label, hasVideo, placeholder, visualizer, isSpeaking, mirror }: VideoTileProps) {
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isPictureInPicture, setIsPictureInPicture] = useState(false);
+
+  // Keep the button in sync when the browser's own PiP controls are used
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!hasVideo || !video) return;
+
+    const handleEnter = () => setIsPictureInPicture(true);
+    const handleLeave = () => setIsPictureInPicture(false);
+    video.addEventListener("enterpictureinpicture", handleEnter);
+    video.addEventListener("leavepictureinpicture", handleLeave);
+    return () => {
+      video.removeEventListener("enterpictureinpicture", handleEnter);
+      video.removeEventListener("leavepictureinpicture", handleLeave);
+    };
+  }, [hasVideo]);
+
+  const handleTogglePictureInPicture = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    try {
+      if (document.pictureInPictureElement === video) {
+        await document.exitPictureInPicture();
+      } else {
+        await video.requestPictureInPicture();
+      }
+    } catch (error) {
+      console.error("❌ Picture-in-picture failed:", error);
+      toast({
+        title: "Picture-in-Picture Unavailable",
+        description: "Your browser could not open this video in picture-in-picture.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "relative flex-1 min-h-0 overflow-hidden rounded-lg bg-muted transition-shadow duration-300",
+        isSpeaking && "ring-4 ring-primary/40 shadow-glow"
+      )}
+    >
+      {hasVideo ? (
+        <PipecatClientVideo
+          ref={videoRef}
+          participant={participant}
+          fit="cover"
+          mirror={mirror}
+          className="h-full w-full"
+        />
+      ) : (
+        <div className="flex h-full w-full items-center justify-center">
+          {placeholder}
+        </div>
+      )}
+
+      <div className="absolute bottom-2 left-2 flex items-center gap-2 rounded-md bg-background/80 px-2 py-0.5">
+        <span className="text-xs font-medium">{label}</span>
+        {visualizer}
+      </div>
+
+      {hasVideo && supportsPictureInPicture() && (
+        <Button
+          type="button"
+          variant="secondary"
+          size="icon"
+          className="absolute right-2 top-2 h-8 w-8 rounded-full opacity-80 hover:opacity-100"
+          onClick={handleTogglePictureInPicture}
+          aria-label={isPictureInPicture ? "Exit picture-in-picture" : "Open in picture-in-picture"}
+          title={isPictureInPicture ? "Exit picture-in-picture" : "Open in picture-in-picture"}
+        >
+          <PictureInPicture2 size={16} />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface VideoStageProps {
+  isBotSpeaking?: boolean;
+}
+
+export function VideoStage({ isBotSpeaking }: VideoStageProps) {
+  const { isConnected } = useBotConnection();
+  const { isCamEnabled } = usePipecatClientCamControl();
+  const botVideoTrack = usePipecatClientMediaTrack("video", "bot");
+  const localVideoTrack = usePipecatClientMediaTrack("video", "local");
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+
+  return (
+    <div className="flex h-full flex-col gap-4">
+      <VideoTile
+        participant="bot"
+        label="Assistant"
+        hasVideo={isConnected && !!botVideoTrack}
+        isSpeaking={isConnected && isBotSpeaking}
+        visualizer={<AudioVisualizer participant="bot" />}
+        placeholder={
+          <div className="flex flex-col items-center gap-3 text-muted-foreground">
+            <Avatar className="h-20 w-20">
+              <AvatarFallback className="bg-primary/10 text-primary">
+                <Bot size={36} />
+              </AvatarFallback>
+            </Avatar>
+            <p className="text-sm">{isConnected ? "The assistant is listening" : "Connect to start the call"}</p>
+          </div>
+        }
+      />
+      <VideoTile
+        participant="local"
+        label="You"
+        hasVideo={isCamEnabled && !!localVideoTrack}
+        isSpeaking={isConnected && isUserSpeaking}
+        visualizer={<AudioVisualizer participant="local" onActiveChange={setIsUserSpeaking} />}
+        mirror
+        placeholder={
+          <div className="flex flex-col items-center gap-2 text-muted-foreground">
+            {isConnected ? <VideoOff size={28} /> : <User size={28} />}
+            <p className="text-sm">Camera is off</p>
+          </div>
+        }
+      />
+    </div>
+  );
+}
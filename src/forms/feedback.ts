@@ -0,0 +1,55 @@
+import type { FormDefinition } from "@/lib/form-schema";
+
+export const feedbackForm: FormDefinition = {
+  id: "feedback",
+  title: "Feedback",
+  description: "Share your experience with us",
+  completionTitle: "Thanks for the Feedback! 🎉",
+  completionMessage: "We read every response and appreciate your time.",
+  fields: [
+    {
+      id: "email",
+      kind: "email",
+      label: "What's your email?",
+      placeholder: "Enter your email address",
+      required: false
+    },
+    {
+      id: "rating",
+      kind: "number",
+      label: "How would you rate your experience from 1 to 5?",
+      required: true,
+      min: 1,
+      max: 5,
+      step: 1
+    },
+    {
+      id: "topics",
+      kind: "multi-select",
+      label: "What did you use the assistant for?",
+      required: false,
+      options: [
+        { value: "forms", label: "Filling in forms" },
+        { value: "questions", label: "Asking questions" },
+        { value: "support", label: "Getting support" },
+        { value: "other", label: "Something else" }
+      ]
+    },
+    {
+      id: "feedback",
+      kind: "textarea",
+      label: "How was your experience?",
+      placeholder: "Tell us what worked well and what we could improve...",
+      required: true,
+      validation: [
+        { type: "minLength", value: 10 }
+      ]
+    },
+    {
+      id: "contact",
+      kind: "checkbox",
+      label: "May we contact you about your feedback?",
+      required: false
+    }
+  ]
+};
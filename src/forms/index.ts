@@ -0,0 +1,12 @@
+import type { FormDefinition } from "@/lib/form-schema";
+import { startupForm } from "./startup";
+import { onboardingForm } from "./onboarding";
+import { feedbackForm } from "./feedback";
+
+export { startupForm, onboardingForm, feedbackForm };
+
+export const formDefinitions: FormDefinition[] = [startupForm, onboardingForm, feedbackForm];
+
+export function getFormDefinition(formId: string): FormDefinition | undefined {
+  return formDefinitions.find(form => form.id === formId);
+}
@@ -0,0 +1,76 @@
+import type { FormDefinition } from "@/lib/form-schema";
+
+export const onboardingForm: FormDefinition = {
+  id: "onboarding",
+  title: "Onboarding",
+  description: "Help us set up your workspace",
+  completionTitle: "You're All Set! 🎉",
+  completionMessage: "Thanks! Your workspace details have been recorded.",
+  fields: [
+    {
+      id: "name",
+      kind: "text",
+      label: "What's your name?",
+      placeholder: "Enter your full name",
+      required: true
+    },
+    {
+      id: "company",
+      kind: "text",
+      label: "Which company are you with?",
+      placeholder: "Enter your company name",
+      required: true
+    },
+    {
+      id: "role",
+      kind: "select",
+      label: "What's your role?",
+      placeholder: "Select your role",
+      required: true,
+      options: [
+        { value: "founder", label: "Founder" },
+        { value: "product", label: "Product Manager" },
+        { value: "engineering", label: "Engineer" },
+        { value: "other", label: "Other" }
+      ]
+    },
+    {
+      id: "team_size",
+      kind: "number",
+      shortLabel: "Team size",
+      label: "How many people are on your team?",
+      placeholder: "e.g. 5",
+      required: true,
+      min: 1
+    },
+    {
+      id: "website",
+      kind: "url",
+      label: "What's your company website?",
+      placeholder: "https://example.com",
+      required: false
+    },
+    {
+      id: "phone",
+      kind: "phone",
+      label: "What's the best number to reach you?",
+      placeholder: "+1 555 123 4567",
+      required: false
+    },
+    {
+      id: "start_date",
+      kind: "date",
+      shortLabel: "Start date",
+      label: "When would you like to get started?",
+      placeholder: "Pick a start date",
+      required: true
+    },
+    {
+      id: "goals",
+      kind: "textarea",
+      label: "What do you want to achieve?",
+      placeholder: "Tell us what success looks like for you in the first few weeks...",
+      required: false
+    }
+  ]
+};
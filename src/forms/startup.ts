@@ -0,0 +1,32 @@
+import type { FormDefinition } from "@/lib/form-schema";
+
+export const startupForm: FormDefinition = {
+  id: "startup",
+  title: "Startup Intake",
+  description: "Tell us about you and your startup",
+  completionTitle: "Form Complete! 🎉",
+  completionMessage: "Thank you for sharing your startup information!",
+  fields: [
+    {
+      id: "name",
+      kind: "text",
+      label: "What's your name?",
+      placeholder: "Enter your full name",
+      required: true
+    },
+    {
+      id: "email",
+      kind: "email",
+      label: "What's your email?",
+      placeholder: "Enter your email address",
+      required: true
+    },
+    {
+      id: "experience",
+      kind: "textarea",
+      label: "Tell us about your startup",
+      placeholder: "Tell us about your current startup, role, challenges, and what you're looking to achieve...",
+      required: true
+    }
+  ]
+};
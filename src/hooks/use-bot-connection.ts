@@ -0,0 +1,23 @@
+import { createContext, useContext } from "react";
+import type { BotConnectionState } from "@/lib/bot-connection";
+
+export interface BotConnectionContextValue extends BotConnectionState {
+  formId: string;
+  // True while the transport is connected or ready
+  isConnected: boolean;
+  connect: () => Promise<void>;
+  disconnect: () => Promise<void>;
+  retryNow: () => void;
+  cancelReconnect: () => void;
+}
+
+export const BotConnectionContext = createContext<BotConnectionContextValue | null>(null);
+
+export function useBotConnection() {
+  const context = useContext(BotConnectionContext);
+  if (!context) {
+    throw new Error("useBotConnection must be used within a BotConnectionProvider.");
+  }
+
+  return context;
+}
@@ -0,0 +1,38 @@
+import { createContext, useContext } from "react";
+import type { ChatPreferences } from "@/lib/chat-preferences";
+import type { ChatMessage, ConversationSession, FormOutcome } from "@/lib/conversation-history";
+import type { SuggestedRepliesMessage } from "@/lib/form-protocol";
+
+export interface ConversationContextValue {
+  // Stored session of the current or last call; its `messages` lag behind, use `messages` instead
+  session: ConversationSession | null;
+  messages: ChatMessage[];
+  // Live partial transcript of the current utterance, replaced by the final text
+  interimTranscript: string | null;
+  isListening: boolean;
+  // True from the start of a bot reply until it stops speaking
+  isBotResponding: boolean;
+  // True while any typed message is waiting for the bot to accept it
+  isSendingMessage: boolean;
+  // Typed messages are queued instead of sent while this is true
+  isReconnecting: boolean;
+  // Latest bot suggestions, cleared once the user answers
+  suggestions: SuggestedRepliesMessage | null;
+  preferences: ChatPreferences;
+  setShowInterimTranscripts: (show: boolean) => void;
+  sendMessage: (text: string) => void;
+  retryMessage: (id: string) => void;
+  setFormOutcome: (outcome: FormOutcome) => void;
+  clearSuggestions: () => void;
+}
+
+export const ConversationContext = createContext<ConversationContextValue | null>(null);
+
+export function useConversation() {
+  const context = useContext(ConversationContext);
+  if (!context) {
+    throw new Error("useConversation must be used within a ConversationProvider.");
+  }
+
+  return context;
+}
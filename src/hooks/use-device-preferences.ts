@@ -0,0 +1,75 @@
+import { useCallback, useState } from "react";
+import {
+  usePipecatClientCamControl,
+  usePipecatClientMediaDevices,
+  usePipecatClientMicControl
+} from "@pipecat-ai/client-react";
+import { type DevicePreferences, loadDevicePreferences, saveDevicePreferences } from "@/lib/device-preferences";
+
+// Device selection and mic/cam toggles that are remembered for the next connect
+export function useDevicePreferences() {
+  const {
+    availableMics,
+    availableCams,
+    availableSpeakers,
+    selectedMic,
+    selectedCam,
+    selectedSpeaker,
+    updateMic,
+    updateCam,
+    updateSpeaker
+  } = usePipecatClientMediaDevices();
+  const { isMicEnabled, enableMic } = usePipecatClientMicControl();
+  const { isCamEnabled, enableCam } = usePipecatClientCamControl();
+  const [preferences, setPreferences] = useState<DevicePreferences>(loadDevicePreferences);
+
+  const updatePreferences = useCallback((patch: Partial<DevicePreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...patch };
+      saveDevicePreferences(next);
+      return next;
+    });
+  }, []);
+
+  const selectMic = useCallback((deviceId: string) => {
+    updateMic(deviceId);
+    updatePreferences({ micId: deviceId });
+  }, [updateMic, updatePreferences]);
+
+  const selectCam = useCallback((deviceId: string) => {
+    updateCam(deviceId);
+    updatePreferences({ camId: deviceId });
+  }, [updateCam, updatePreferences]);
+
+  const selectSpeaker = useCallback((deviceId: string) => {
+    updateSpeaker(deviceId);
+    updatePreferences({ speakerId: deviceId });
+  }, [updateSpeaker, updatePreferences]);
+
+  const setMicEnabled = useCallback((enabled: boolean) => {
+    enableMic(enabled);
+    updatePreferences({ enableMic: enabled });
+  }, [enableMic, updatePreferences]);
+
+  const setCamEnabled = useCallback((enabled: boolean) => {
+    enableCam(enabled);
+    updatePreferences({ enableCam: enabled });
+  }, [enableCam, updatePreferences]);
+
+  return {
+    preferences,
+    availableMics,
+    availableCams,
+    availableSpeakers,
+    selectedMicId: selectedMic.deviceId as string | undefined,
+    selectedCamId: selectedCam.deviceId as string | undefined,
+    selectedSpeakerId: selectedSpeaker.deviceId as string | undefined,
+    isMicEnabled,
+    isCamEnabled,
+    selectMic,
+    selectCam,
+    selectSpeaker,
+    setMicEnabled,
+    setCamEnabled
+  };
+}
@@ -0,0 +1,19 @@
+import { createContext, useContext } from "react";
+import type { TurnMetricsSummary, TurnTiming } from "@/lib/turn-metrics";
+
+export interface TurnMetricsContextValue {
+  // Turns of the current or last call; the last one may still await the bot's answer
+  turns: TurnTiming[];
+  summary: TurnMetricsSummary;
+}
+
+export const TurnMetricsContext = createContext<TurnMetricsContextValue | null>(null);
+
+export function useTurnMetrics() {
+  const context = useContext(TurnMetricsContext);
+  if (!context) {
+    throw new Error("useTurnMetrics must be used within a TurnMetricsProvider.");
+  }
+
+  return context;
+}
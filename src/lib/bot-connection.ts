@@ -0,0 +1,256 @@
+import { z } from "zod";
+import type { TransportState } from "@pipecat-ai/client-js";
+
+// idle → health-checking → negotiating → connecting → ready, with error reachable from any step
+export type BotConnectionStatus =
+  | "idle"
+  | "health-checking"
+  | "negotiating"
+  | "connecting"
+  | "ready"
+  | "error";
+
+export interface BotConnectionError {
+  title: string;
+  description: string;
+}
+
+export interface PendingReconnect {
+  attempt: number;
+  maxAttempts: number;
+  // Epoch ms when the next attempt starts
+  at: number;
+}
+
+export interface BotConnectionState {
+  status: BotConnectionStatus;
+  transportState: TransportState;
+  error: BotConnectionError | null;
+  attempts: number;
+  reconnect: PendingReconnect | null;
+}
+
+export const INITIAL_BOT_CONNECTION_STATE: BotConnectionState = {
+  status: "idle",
+  transportState: "disconnected",
+  error: null,
+  attempts: 0,
+  reconnect: null
+};
+
+export const DEFAULT_API_BASE_URL = "https://manjujayamurali--superbryn-form-bot-fastapi-app.modal.run";
+
+export function getApiBaseUrl(): string {
+  return import.meta.env.VITE_PIPECAT_API_URL || DEFAULT_API_BASE_URL;
+}
+
+// Consider both "connected" AND "ready" as connected
+export function isConnectedTransportState(state: TransportState): boolean {
+  return state === "connected" || state === "ready";
+}
+
+export function isTransitionalTransportState(state: TransportState): boolean {
+  return state === "connecting" ||
+    state === "initializing" ||
+    state === "initialized" ||
+    state === "authenticating" ||
+    state === "authenticated";
+}
+
+// Detailed logging helper
+export function logConnection(level: "info" | "warn" | "error", message: string, data?: unknown) {
+  const timestamp = new Date().toISOString();
+  const prefix = `[${timestamp}] [BotConnection]`;
+
+  switch (level) {
+    case "info":
+      console.log(`${prefix} ℹ️ ${message}`, data || "");
+      break;
+    case "warn":
+      console.warn(`${prefix} ⚠️ ${message}`, data || "");
+      break;
+    case "error":
+      console.error(`${prefix} ❌ ${message}`, data || "");
+      break;
+  }
+}
+
+export async function checkHealth(url: string): Promise<boolean> {
+  try {
+    logConnection("info", `Testing endpoint: ${url}`);
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Accept": "application/json",
+      },
+    });
+
+    logConnection("info", "Endpoint test response:", {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries())
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      logConnection("info", "Endpoint test successful", data);
+      return true;
+    } else {
+      const errorText = await response.text();
+      logConnection("error", `Endpoint test failed: ${response.status} ${response.statusText}`, errorText);
+      return false;
+    }
+  } catch (error) {
+    logConnection("error", "Endpoint test threw exception", error);
+    return false;
+  }
+}
+
+// /connect creates a Daily room for the bot and returns credentials to join it
+const connectResponseSchema = z.object({
+  room_url: z.string().url().optional(),
+  dailyRoom: z.string().url().optional(),
+  token: z.string().optional(),
+  dailyToken: z.string().optional()
+}).passthrough();
+
+// Passed straight to the Daily transport instead of letting the client POST /connect again
+export interface BotSessionParams {
+  url: string;
+  token?: string;
+  startAudioOff: boolean;
+  startVideoOff: boolean;
+}
+
+export interface BotSessionOptions {
+  enableMic: boolean;
+  enableCam: boolean;
+}
+
+export type NegotiationResult =
+  | { success: true; session: BotSessionParams; error?: undefined; status?: undefined }
+  | { success: false; session?: undefined; error: string; status?: number };
+
+export function toBotSessionParams(data: unknown, options: BotSessionOptions): BotSessionParams | null {
+  const parsed = connectResponseSchema.safeParse(data);
+  if (!parsed.success) return null;
+
+  const url = parsed.data.room_url ?? parsed.data.dailyRoom;
+  if (!url) return null;
+
+  return {
+    url,
+    token: parsed.data.token ?? parsed.data.dailyToken,
+    startAudioOff: !options.enableMic,
+    startVideoOff: !options.enableCam
+  };
+}
+
+// Keeps room tokens out of the console
+export function describeBotSession(session: BotSessionParams) {
+  return { ...session, token: session.token ? `${session.token.slice(0, 8)}…` : undefined };
+}
+
+// Makes the single /connect request for a call and returns the room to join
+export async function negotiateConnection(
+  url: string,
+  requestData: Record<string, unknown>,
+  options: BotSessionOptions
+): Promise<NegotiationResult> {
+  try {
+    logConnection("info", `Requesting bot session: ${url}`, requestData);
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Accept": "application/json",
+      },
+      body: JSON.stringify(requestData)
+    });
+
+    logConnection("info", "Connect endpoint response:", {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries())
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logConnection("error", `Connect endpoint failed: ${response.status} ${response.statusText}`, errorText);
+      return { success: false, error: errorText, status: response.status };
+    }
+
+    const data = await response.json();
+    const session = toBotSessionParams(data, options);
+    if (!session) {
+      logConnection("error", "Connect endpoint returned no room to join", data);
+      return { success: false, error: "Response did not include a room URL", status: response.status };
+    }
+
+    logConnection("info", "Bot session created", describeBotSession(session));
+    return { success: true, session };
+  } catch (error) {
+    logConnection("error", "Connect endpoint threw exception", error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Logs transport-related window errors while `task` runs, then restores the original handlers
+export async function withConnectionErrorMonitoring<T>(task: () => Promise<T>): Promise<T> {
+  const originalOnError = window.onerror;
+  const originalOnUnhandledRejection = window.onunhandledrejection;
+
+  window.onerror = (message, source, lineno, colno, error) => {
+    if (typeof source === "string" && source.includes("pipecat") ||
+        typeof message === "string" && message.includes("pipecat")) {
+      logConnection("error", "Window error during connection", { message, source, lineno, colno, error });
+    }
+    if (originalOnError) {
+      return originalOnError.call(window, message, source, lineno, colno, error);
+    }
+    return false;
+  };
+
+  window.onunhandledrejection = (event) => {
+    if (event.reason?.message?.includes("transport") || event.reason?.message?.includes("Daily")) {
+      logConnection("error", "Unhandled rejection during connection", event.reason);
+    }
+    if (originalOnUnhandledRejection) {
+      return originalOnUnhandledRejection.call(window, event);
+    }
+  };
+
+  try {
+    return await task();
+  } finally {
+    window.onerror = originalOnError;
+    window.onunhandledrejection = originalOnUnhandledRejection;
+  }
+}
+
+export function describeConnectionError(error: Error): BotConnectionError {
+  if (error.message.includes("Health check failed")) {
+    return {
+      title: "Server Unavailable",
+      description: "The bot server is not responding. Please try again in a moment."
+    };
+  }
+  if (error.message.includes("Connect endpoint failed")) {
+    return {
+      title: "Connection Endpoint Error",
+      description: error.message
+    };
+  }
+  if (error.message.includes("not available")) {
+    return {
+      title: "Client Error",
+      description: "Pipecat client initialization failed. Please refresh the page."
+    };
+  }
+  return {
+    title: "Connection Failed",
+    description: `${error.message}`
+  };
+}
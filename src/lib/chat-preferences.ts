@@ -0,0 +1,30 @@
+const CHAT_PREFERENCES_KEY = "chat-preferences";
+
+export interface ChatPreferences {
+  // Stream partial speech recognition results into a live bubble
+  showInterimTranscripts: boolean;
+}
+
+export const DEFAULT_CHAT_PREFERENCES: ChatPreferences = {
+  showInterimTranscripts: true
+};
+
+export function loadChatPreferences(): ChatPreferences {
+  try {
+    const raw = localStorage.getItem(CHAT_PREFERENCES_KEY);
+    if (!raw) return DEFAULT_CHAT_PREFERENCES;
+
+    return { ...DEFAULT_CHAT_PREFERENCES, ...(JSON.parse(raw) as Partial<ChatPreferences>) };
+  } catch (error) {
+    console.warn("⚠️ Failed to load chat preferences:", error);
+    return DEFAULT_CHAT_PREFERENCES;
+  }
+}
+
+export function saveChatPreferences(preferences: ChatPreferences) {
+  try {
+    localStorage.setItem(CHAT_PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn("⚠️ Failed to save chat preferences:", error);
+  }
+}
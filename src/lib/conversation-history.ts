@@ -0,0 +1,144 @@
+import type { ChatContentMessage } from "@/lib/form-protocol";
+
+const DB_NAME = "conversation-history";
+const DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+
+// Delivery of a typed message: "queued" while offline, "pending" until the bot accepts it
+export type MessageDeliveryStatus = "queued" | "pending" | "sent" | "failed";
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  timestamp: Date;
+  isOwn: boolean;
+  type: 'text' | 'transcription';
+  final?: boolean;
+  // Bot reply that is still being spoken
+  streaming?: boolean;
+  // Structured extras from a `chat_content` server message
+  content?: Pick<ChatContentMessage, "quick_replies" | "cards">;
+  // Only set on the user's typed messages
+  status?: MessageDeliveryStatus;
+}
+
+// Whether the bot saw the message; local send errors and undelivered messages are left out
+export const isDeliveredMessage = (message: ChatMessage) =>
+  !message.id.startsWith("error-") && (!message.status || message.status === "sent");
+
+// "completed" once the bot confirms the form submission during the call
+export type FormOutcome = "completed" | "incomplete";
+
+export interface ConversationSession {
+  id: string;
+  formId: string;
+  formTitle: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  outcome: FormOutcome;
+  messages: ChatMessage[];
+}
+
+export interface SessionSearchResult {
+  session: ConversationSession;
+  matches: ChatMessage[];
+}
+
+export const FORM_OUTCOME_LABELS: Record<FormOutcome, string> = {
+  completed: "Form submitted",
+  incomplete: "Not submitted"
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openHistoryDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(SESSION_STORE, { keyPath: "id" });
+        store.createIndex("startedAt", "startedAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openHistoryDb().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const request = run(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  }));
+}
+
+export function createSessionId() {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function saveSession(session: ConversationSession) {
+  try {
+    await runRequest("readwrite", store => store.put({
+      ...session,
+      // Streaming is a live-only state
+      messages: session.messages.map(message => ({ ...message, streaming: false }))
+    }));
+  } catch (error) {
+    console.warn("⚠️ Failed to save conversation session:", error);
+  }
+}
+
+// Newest first
+export async function listSessions(): Promise<ConversationSession[]> {
+  try {
+    const sessions = await runRequest<ConversationSession[]>("readonly", store => store.index("startedAt").getAll());
+    return sessions.reverse();
+  } catch (error) {
+    console.warn("⚠️ Failed to load conversation history:", error);
+    return [];
+  }
+}
+
+export async function deleteSession(id: string) {
+  try {
+    await runRequest("readwrite", store => store.delete(id));
+  } catch (error) {
+    console.warn("⚠️ Failed to delete conversation session:", error);
+  }
+}
+
+export function getSessionDuration(session: ConversationSession): number {
+  const lastMessage = session.messages[session.messages.length - 1];
+  const end = session.endedAt ?? lastMessage?.timestamp ?? session.startedAt;
+  return Math.max(0, end.getTime() - session.startedAt.getTime());
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+// Every word of the query has to appear in a message for it to match
+export function searchSessions(sessions: ConversationSession[], query: string): SessionSearchResult[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  return sessions
+    .map(session => ({
+      session,
+      matches: session.messages.filter(message => {
+        const text = message.text.toLowerCase();
+        return terms.every(term => text.includes(term));
+      })
+    }))
+    .filter(result => result.matches.length > 0);
+}
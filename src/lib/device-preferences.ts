@@ -0,0 +1,63 @@
+import type { PipecatClient } from "@pipecat-ai/client-js";
+
+const DEVICE_PREFERENCES_KEY = "device-preferences";
+
+export interface DevicePreferences {
+  micId?: string;
+  camId?: string;
+  speakerId?: string;
+  enableMic: boolean;
+  enableCam: boolean;
+}
+
+// The bot is voice-first, so the camera stays off until the user turns it on
+export const DEFAULT_DEVICE_PREFERENCES: DevicePreferences = {
+  enableMic: true,
+  enableCam: false
+};
+
+export function loadDevicePreferences(): DevicePreferences {
+  try {
+    const raw = localStorage.getItem(DEVICE_PREFERENCES_KEY);
+    if (!raw) return DEFAULT_DEVICE_PREFERENCES;
+
+    return { ...DEFAULT_DEVICE_PREFERENCES, ...(JSON.parse(raw) as Partial<DevicePreferences>) };
+  } catch (error) {
+    console.warn("⚠️ Failed to load device preferences:", error);
+    return DEFAULT_DEVICE_PREFERENCES;
+  }
+}
+
+export function saveDevicePreferences(preferences: DevicePreferences) {
+  try {
+    localStorage.setItem(DEVICE_PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn("⚠️ Failed to save device preferences:", error);
+  }
+}
+
+// Points the client at the remembered devices; unknown or unplugged ids are ignored
+export async function applyDevicePreferences(client: PipecatClient, preferences: DevicePreferences) {
+  try {
+    const [mics, cams, speakers] = await Promise.all([
+      client.getAllMics(),
+      client.getAllCams(),
+      client.getAllSpeakers()
+    ]);
+
+    if (preferences.micId && mics.some(device => device.deviceId === preferences.micId)) {
+      client.updateMic(preferences.micId);
+    }
+    if (preferences.camId && cams.some(device => device.deviceId === preferences.camId)) {
+      client.updateCam(preferences.camId);
+    }
+    if (preferences.speakerId && speakers.some(device => device.deviceId === preferences.speakerId)) {
+      client.updateSpeaker(preferences.speakerId);
+    }
+  } catch (error) {
+    console.warn("⚠️ Failed to apply device preferences:", error);
+  }
+
+  client.enableMic(preferences.enableMic);
+  client.enableCam(preferences.enableCam);
+}
@@ -0,0 +1,35 @@
+// Saves generated content as a file through a temporary object URL
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Spreadsheets evaluate cells starting with these characters as formulas
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function toCsvCell(value: string): string {
+  const safe = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Filesystem-safe timestamp for export file names
+export function fileTimestamp(date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
@@ -0,0 +1,100 @@
+import type { FormDefinition, FormValues } from "@/lib/form-schema";
+import type { FormProvenance } from "@/lib/form-provenance";
+
+const DRAFT_KEY_PREFIX = "form-draft";
+const DRAFT_VERSION = 1;
+
+export interface FormDraft {
+  version: number;
+  formId: string;
+  values: FormValues;
+  currentField: string;
+  completedFields: string[];
+  provenance?: FormProvenance;
+  updatedAt: string;
+}
+
+const DRAFT_SESSION_STORAGE_KEY = "form-draft-session";
+
+// Per browser tab: survives reloads and dropped calls, but separate tabs keep separate drafts
+export function getDraftSessionKey(): string {
+  try {
+    const existing = sessionStorage.getItem(DRAFT_SESSION_STORAGE_KEY);
+    if (existing) return existing;
+
+    const created = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    sessionStorage.setItem(DRAFT_SESSION_STORAGE_KEY, created);
+    return created;
+  } catch (error) {
+    console.warn("⚠️ Failed to access the draft session key:", error);
+    return "default";
+  }
+}
+
+// Drafts hold personal details, so they live in sessionStorage and go away with the tab
+export function getDraftStorageKey(formId: string, sessionKey = "default") {
+  return `${DRAFT_KEY_PREFIX}:${formId}:${sessionKey}`;
+}
+
+// Earlier versions kept drafts in localStorage, where nothing ever removed them
+function removeLegacyDrafts() {
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(`${DRAFT_KEY_PREFIX}:`))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.warn("⚠️ Failed to remove legacy form drafts:", error);
+  }
+}
+
+// Returns null when there is no draft or it no longer fits the form definition
+export function loadFormDraft(definition: FormDefinition, sessionKey?: string): FormDraft | null {
+  try {
+    removeLegacyDrafts();
+
+    const raw = sessionStorage.getItem(getDraftStorageKey(definition.id, sessionKey));
+    if (!raw) return null;
+
+    const draft = JSON.parse(raw) as FormDraft;
+    const knownField = (field: string) => definition.fields.some(item => item.id === field);
+
+    if (draft?.version !== DRAFT_VERSION || draft.formId !== definition.id || !knownField(draft.currentField)) {
+      return null;
+    }
+
+    return {
+      ...draft,
+      values: { ...draft.values },
+      completedFields: (draft.completedFields ?? []).filter(knownField)
+    };
+  } catch (error) {
+    console.warn("⚠️ Failed to load form draft:", error);
+    return null;
+  }
+}
+
+export function saveFormDraft(
+  definition: FormDefinition,
+  draft: Omit<FormDraft, "version" | "formId" | "updatedAt">,
+  sessionKey?: string
+) {
+  try {
+    const stored: FormDraft = {
+      ...draft,
+      version: DRAFT_VERSION,
+      formId: definition.id,
+      updatedAt: new Date().toISOString()
+    };
+    sessionStorage.setItem(getDraftStorageKey(definition.id, sessionKey), JSON.stringify(stored));
+  } catch (error) {
+    console.warn("⚠️ Failed to save form draft:", error);
+  }
+}
+
+export function clearFormDraft(formId: string, sessionKey?: string) {
+  try {
+    sessionStorage.removeItem(getDraftStorageKey(formId, sessionKey));
+  } catch (error) {
+    console.warn("⚠️ Failed to clear form draft:", error);
+  }
+}
@@ -0,0 +1,120 @@
+import {
+  type FormDefinition,
+  type FormFieldValue,
+  type FormValues,
+  formatFieldValue,
+  getFieldShortLabel
+} from "@/lib/form-schema";
+import { type FieldSource, type FormProvenance, FIELD_SOURCE_LABELS } from "@/lib/form-provenance";
+import { downloadFile, escapeHtml, fileTimestamp, toCsvCell } from "@/lib/download";
+
+export interface FormSubmissionField {
+  id: string;
+  label: string;
+  value: FormFieldValue;
+  display_value: string;
+  source: FieldSource | null;
+  updated_at: string | null;
+}
+
+export interface FormSubmission {
+  form_id: string;
+  form_title: string;
+  submitted_at: string;
+  fields: FormSubmissionField[];
+}
+
+export function buildFormSubmission(
+  definition: FormDefinition,
+  values: FormValues,
+  provenance: FormProvenance,
+  submittedAt: Date
+): FormSubmission {
+  return {
+    form_id: definition.id,
+    form_title: definition.title,
+    submitted_at: submittedAt.toISOString(),
+    fields: definition.fields.map(field => ({
+      id: field.id,
+      label: getFieldShortLabel(field),
+      value: values[field.id] ?? null,
+      display_value: formatFieldValue(field, values[field.id]),
+      source: provenance[field.id]?.source ?? null,
+      updated_at: provenance[field.id]?.updatedAt ?? null
+    }))
+  };
+}
+
+export function submissionToJson(submission: FormSubmission): string {
+  return JSON.stringify(submission, null, 2);
+}
+
+export function submissionToCsv(submission: FormSubmission): string {
+  const header = ["form_id", "submitted_at", "field_id", "label", "value", "source", "updated_at"];
+  const rows = submission.fields.map(field => [
+    submission.form_id,
+    submission.submitted_at,
+    field.id,
+    field.label,
+    field.display_value,
+    field.source ?? "",
+    field.updated_at ?? ""
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(toCsvCell).join(","))
+    .join("\r\n");
+}
+
+const submissionFilename = (submission: FormSubmission, extension: string) =>
+  `${submission.form_id}-submission-${fileTimestamp(new Date(submission.submitted_at))}.${extension}`;
+
+export function downloadSubmissionJson(submission: FormSubmission) {
+  downloadFile(submissionFilename(submission, "json"), submissionToJson(submission), "application/json");
+}
+
+export function downloadSubmissionCsv(submission: FormSubmission) {
+  downloadFile(submissionFilename(submission, "csv"), submissionToCsv(submission), "text/csv;charset=utf-8");
+}
+
+// Opens a standalone, print-friendly page for the submission and starts printing
+export function printSubmission(submission: FormSubmission): boolean {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+
+  const rows = submission.fields.map(field => `
+    <tr>
+      <th>${escapeHtml(field.label)}</th>
+      <td>${escapeHtml(field.display_value || "Not provided")}</td>
+      <td>${escapeHtml(field.source ? FIELD_SOURCE_LABELS[field.source] : "—")}</td>
+      <td>${escapeHtml(field.updated_at ? new Date(field.updated_at).toLocaleString() : "—")}</td>
+    </tr>`).join("");
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(submission.form_title)} submission</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    p { color: #555; margin-top: 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 1.5rem; }
+    th, td { text-align: left; vertical-align: top; padding: 0.5rem; border-bottom: 1px solid #ddd; white-space: pre-wrap; }
+    thead th { font-size: 0.75rem; text-transform: uppercase; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(submission.form_title)}</h1>
+  <p>Submitted ${escapeHtml(new Date(submission.submitted_at).toLocaleString())}</p>
+  <table>
+    <thead><tr><th>Field</th><th>Answer</th><th>Source</th><th>Last updated</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
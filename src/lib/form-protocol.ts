@@ -0,0 +1,214 @@
+import { z } from "zod";
+import type { PipecatClient } from "@pipecat-ai/client-js";
+import { FORM_FIELD_KINDS, type FormFieldValue, type FormValues } from "@/lib/form-schema";
+import { validationRuleSchema } from "@/lib/form-validation";
+
+// Bump when the shape of any form message changes
+export const FORM_PROTOCOL_VERSION = 1;
+
+const versionSchema = z.number().int().positive().optional();
+
+const fieldConfigSchema = z.object({
+  label: z.string(),
+  placeholder: z.string(),
+  required: z.boolean(),
+  type: z.enum(FORM_FIELD_KINDS).optional(),
+  options: z.array(z.object({ value: z.string(), label: z.string() })).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  step: z.number().optional(),
+  validation: z.array(validationRuleSchema).optional()
+});
+
+const fieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()]);
+
+const formValuesSchema = z.record(fieldValueSchema);
+
+// Server → client messages, delivered through RTVIEvent.ServerMessage
+const formInitializedSchema = z.object({
+  type: z.literal("form_initialized"),
+  version: versionSchema,
+  current_field: z.string(),
+  field_config: fieldConfigSchema
+});
+
+const quickReplySchema = z.object({
+  label: z.string(),
+  // Sent to the bot instead of the label when present
+  value: z.string().optional()
+});
+
+const chatCardSchema = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+  image_url: z.string().optional(),
+  url: z.string().optional(),
+  actions: z.array(quickReplySchema).optional()
+});
+
+// Rich bot reply for the chat; `text` is Markdown
+const chatContentSchema = z.object({
+  type: z.literal("chat_content"),
+  version: versionSchema,
+  text: z.string().optional(),
+  quick_replies: z.array(quickReplySchema).optional(),
+  cards: z.array(chatCardSchema).optional()
+});
+
+// Suggested answers for the current question; an empty list clears them
+const suggestedRepliesSchema = z.object({
+  type: z.literal("suggested_replies"),
+  version: versionSchema,
+  // Form field the suggestions answer; chat-only when omitted
+  field: z.string().optional(),
+  suggestions: z.array(z.object({
+    label: z.string(),
+    // Submitted as the field value instead of the label when present
+    value: fieldValueSchema.optional()
+  }))
+});
+
+const serverMessageSchema = z.discriminatedUnion("type", [
+  formInitializedSchema,
+  chatContentSchema,
+  suggestedRepliesSchema
+]);
+
+// Server → client responses, delivered through RTVIEvent.ServerResponse under `d`
+const successResponseSchema = z.object({
+  status: z.literal("success"),
+  version: versionSchema,
+  field_id: z.string().optional(),
+  value: fieldValueSchema.optional(),
+  next_field: z.string().optional(),
+  next_field_config: fieldConfigSchema.optional()
+});
+
+const errorResponseSchema = z.object({
+  status: z.literal("error"),
+  version: versionSchema,
+  current_field: z.string().optional(),
+  current_field_config: fieldConfigSchema.optional(),
+  error: z.string().optional(),
+  validation_error: z.string().optional()
+});
+
+const completeResponseSchema = z.object({
+  status: z.literal("complete"),
+  version: versionSchema,
+  message: z.string().optional(),
+  form_data: formValuesSchema.optional()
+});
+
+const serverResponseSchema = z.discriminatedUnion("status", [
+  successResponseSchema,
+  errorResponseSchema,
+  completeResponseSchema
+]);
+
+export type ServerFieldConfig = z.infer<typeof fieldConfigSchema>;
+export type FormInitializedMessage = z.infer<typeof formInitializedSchema>;
+export type ChatQuickReply = z.infer<typeof quickReplySchema>;
+export type ChatCard = z.infer<typeof chatCardSchema>;
+export type ChatContentMessage = z.infer<typeof chatContentSchema>;
+export type SuggestedRepliesMessage = z.infer<typeof suggestedRepliesSchema>;
+export type SuggestedReply = SuggestedRepliesMessage["suggestions"][number];
+export type FormServerMessage = z.infer<typeof serverMessageSchema>;
+export type FormSuccessResponse = z.infer<typeof successResponseSchema>;
+export type FormErrorResponse = z.infer<typeof errorResponseSchema>;
+export type FormCompleteResponse = z.infer<typeof completeResponseSchema>;
+export type FormServerResponse = z.infer<typeof serverResponseSchema>;
+
+// Client → server messages, sent with sendClientMessage(type, payload)
+export interface FormFieldDataMessage {
+  type: "form_field_data";
+  field: string;
+  value: FormFieldValue;
+}
+
+export interface FormCompleteMessage {
+  type: "form_complete";
+  form_id: string;
+  data: FormValues;
+}
+
+export interface GetCurrentFieldMessage {
+  type: "get_current_field";
+}
+
+// Sent when the user navigates back to (or forward to) a field themselves
+export interface JumpToFieldMessage {
+  type: "jump_to_field";
+  field: string;
+}
+
+// Sent after (re)connecting when a locally saved draft exists
+export interface ResumeFormMessage {
+  type: "resume_form";
+  form_id: string;
+  data: FormValues;
+  current_field: string;
+  completed_fields: string[];
+}
+
+export type FormClientMessage =
+  | FormFieldDataMessage
+  | FormCompleteMessage
+  | GetCurrentFieldMessage
+  | JumpToFieldMessage
+  | ResumeFormMessage;
+
+export type ProtocolResult<T> =
+  | { message: T; error?: undefined }
+  | { message?: undefined; error: string };
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues
+    .map(issue => `${issue.path.join(".") || "message"}: ${issue.message}`)
+    .join("; ");
+
+function parseWith<T extends { version?: number }>(schema: z.ZodType<T>, data: unknown): ProtocolResult<T> {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    return { error: formatIssues(result.error) };
+  }
+
+  const { version } = result.data;
+  if (version !== undefined && version !== FORM_PROTOCOL_VERSION) {
+    return {
+      error: `Unsupported protocol version ${version} (expected ${FORM_PROTOCOL_VERSION})`
+    };
+  }
+
+  return { message: result.data };
+}
+
+export function parseServerMessage(data: unknown): ProtocolResult<FormServerMessage> {
+  return parseWith(serverMessageSchema, data);
+}
+
+export function parseServerResponse(data: unknown): ProtocolResult<FormServerResponse> {
+  const payload = typeof data === "object" && data !== null ? (data as { d?: unknown }).d : undefined;
+
+  if (payload === undefined) {
+    return { error: "Server response has no payload" };
+  }
+
+  return parseWith(serverResponseSchema, payload);
+}
+
+// What a chosen suggestion answers with as text: its value when that is a string, otherwise its label
+export function getSuggestionText(suggestion: SuggestedReply): string {
+  return typeof suggestion.value === "string" ? suggestion.value : suggestion.label;
+}
+
+export function sendFormMessage(client: PipecatClient, message: FormClientMessage) {
+  const { type, ...payload } = message;
+
+  client.sendClientMessage(type, {
+    ...payload,
+    version: FORM_PROTOCOL_VERSION,
+    timestamp: new Date().toISOString()
+  });
+}
@@ -0,0 +1,93 @@
+import type { FormFieldValue } from "@/lib/form-schema";
+
+// Where a field's current value came from
+export type FieldSource = "typed" | "spoken" | "bot-corrected";
+
+export interface FieldProvenance {
+  source: FieldSource;
+  // What the user typed, kept when the bot replaced it with its own interpretation
+  typedValue?: FormFieldValue;
+  updatedAt: string;
+}
+
+export type FormProvenance = Record<string, FieldProvenance>;
+
+export interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export const FIELD_SOURCE_LABELS: Record<FieldSource, string> = {
+  typed: "Typed",
+  spoken: "Spoken",
+  "bot-corrected": "Bot-corrected"
+};
+
+const normalize = (value: FormFieldValue | undefined) =>
+  typeof value === "string" ? value.trim() : JSON.stringify(value ?? null);
+
+export function valuesEqual(a: FormFieldValue | undefined, b: FormFieldValue | undefined): boolean {
+  return normalize(a) === normalize(b);
+}
+
+export function typedProvenance(): FieldProvenance {
+  return { source: "typed", updatedAt: new Date().toISOString() };
+}
+
+// Classifies a value accepted by the bot against what the user sent, if anything
+export function resolveBotProvenance(sentValue: FormFieldValue | undefined, botValue: FormFieldValue): FieldProvenance {
+  const updatedAt = new Date().toISOString();
+
+  if (sentValue === undefined) {
+    return { source: "spoken", updatedAt };
+  }
+
+  if (valuesEqual(sentValue, botValue)) {
+    return { source: "typed", updatedAt };
+  }
+
+  return { source: "bot-corrected", typedValue: sentValue, updatedAt };
+}
+
+// Word-level diff based on the longest common subsequence
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,128 @@
+import { format, parseISO } from "date-fns";
+import type { ValidationRule } from "@/lib/form-validation";
+
+export const FORM_FIELD_KINDS = [
+  "text",
+  "email",
+  "textarea",
+  "select",
+  "multi-select",
+  "date",
+  "number",
+  "phone",
+  "url",
+  "checkbox"
+] as const;
+
+export type FormFieldKind = typeof FORM_FIELD_KINDS[number];
+
+// Dates are stored as yyyy-MM-dd strings, numbers as numbers and multi-selects as option values
+export type FormFieldValue = string | number | boolean | string[] | null;
+
+export interface FormFieldOption {
+  value: string;
+  label: string;
+}
+
+export interface FormFieldDefinition {
+  id: string;
+  kind: FormFieldKind;
+  label: string;
+  // Short name used in summaries and buttons, defaults to the capitalised id
+  shortLabel?: string;
+  placeholder?: string;
+  required?: boolean;
+  // Choices for select and multi-select fields
+  options?: FormFieldOption[];
+  // Bounds for number fields; when both are set the field renders as a slider
+  min?: number;
+  max?: number;
+  step?: number;
+  // Extra rules on top of those implied by required, kind and min/max
+  validation?: ValidationRule[];
+}
+
+export interface FormDefinition {
+  id: string;
+  title: string;
+  description?: string;
+  completionTitle?: string;
+  completionMessage?: string;
+  // Fields are collected in array order
+  fields: FormFieldDefinition[];
+}
+
+export type FormValues = Record<string, FormFieldValue>;
+
+export function getFieldDefinition(definition: FormDefinition, fieldId: string): FormFieldDefinition | undefined {
+  return definition.fields.find(field => field.id === fieldId);
+}
+
+export function getFieldIndex(definition: FormDefinition, fieldId: string): number {
+  return definition.fields.findIndex(field => field.id === fieldId);
+}
+
+export function getFirstField(definition: FormDefinition): FormFieldDefinition {
+  return definition.fields[0];
+}
+
+export function isLastField(definition: FormDefinition, fieldId: string): boolean {
+  return getFieldIndex(definition, fieldId) === definition.fields.length - 1;
+}
+
+export function getEmptyValue(field: Pick<FormFieldDefinition, "kind">): FormFieldValue {
+  switch (field.kind) {
+    case "multi-select": return [];
+    case "checkbox": return false;
+    case "number": return null;
+    default: return "";
+  }
+}
+
+export function createEmptyValues(definition: FormDefinition): FormValues {
+  return Object.fromEntries(definition.fields.map(field => [field.id, getEmptyValue(field)]));
+}
+
+export function isEmptyValue(value: FormFieldValue | undefined): boolean {
+  if (value === null || value === undefined || value === false) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+// Trims text answers before they are sent to the bot
+export function normalizeFieldValue(value: FormFieldValue): FormFieldValue {
+  return typeof value === "string" ? value.trim() : value;
+}
+
+export function formatFieldValue(field: FormFieldDefinition, value: FormFieldValue | undefined): string {
+  if (isEmptyValue(value) && field.kind !== "checkbox") return "";
+
+  const optionLabel = (optionValue: string) =>
+    field.options?.find(option => option.value === optionValue)?.label ?? optionValue;
+
+  switch (field.kind) {
+    case "checkbox":
+      return value ? "Yes" : "No";
+    case "select":
+      return optionLabel(String(value));
+    case "multi-select":
+      return (Array.isArray(value) ? value : [String(value)]).map(optionLabel).join(", ");
+    case "date":
+      try {
+        return format(parseISO(String(value)), "PPP");
+      } catch {
+        return String(value);
+      }
+    default:
+      return Array.isArray(value) ? value.join(", ") : String(value);
+  }
+}
+
+export function getFieldDisplayName(field: FormFieldDefinition): string {
+  return field.label.replace("?", "");
+}
+
+export function getFieldShortLabel(field: Pick<FormFieldDefinition, "id" | "shortLabel">): string {
+  return field.shortLabel ?? field.id.charAt(0).toUpperCase() + field.id.slice(1);
+}
@@ -0,0 +1,170 @@
+import { isValid, parseISO } from "date-fns";
+import { z } from "zod";
+import {
+  type FormDefinition,
+  type FormFieldDefinition,
+  type FormFieldValue,
+  type FormValues,
+  getFieldDisplayName,
+  isEmptyValue
+} from "@/lib/form-schema";
+
+// Rules are plain JSON so the bot can send the same definitions in field_config
+export const validationRuleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("required"), message: z.string().optional() }),
+  z.object({ type: z.literal("email"), message: z.string().optional() }),
+  z.object({ type: z.literal("url"), message: z.string().optional() }),
+  z.object({ type: z.literal("phone"), message: z.string().optional() }),
+  z.object({ type: z.literal("date"), message: z.string().optional() }),
+  z.object({ type: z.literal("pattern"), pattern: z.string(), flags: z.string().optional(), message: z.string().optional() }),
+  z.object({ type: z.literal("minLength"), value: z.number(), message: z.string().optional() }),
+  z.object({ type: z.literal("maxLength"), value: z.number(), message: z.string().optional() }),
+  z.object({ type: z.literal("min"), value: z.number(), message: z.string().optional() }),
+  z.object({ type: z.literal("max"), value: z.number(), message: z.string().optional() }),
+  z.object({ type: z.literal("custom"), name: z.string(), message: z.string().optional() }),
+  // Cross-field rules compare against another answer in the same form
+  z.object({ type: z.literal("matches"), field: z.string(), message: z.string().optional() }),
+  z.object({ type: z.literal("after"), field: z.string(), message: z.string().optional() }),
+  z.object({
+    type: z.literal("requiredIf"),
+    field: z.string(),
+    equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    message: z.string().optional()
+  })
+]);
+
+export type ValidationRule = z.infer<typeof validationRuleSchema>;
+
+export type CustomValidator = (
+  value: FormFieldValue,
+  values: FormValues,
+  field: FormFieldDefinition
+) => string | null;
+
+export type FormErrors = Record<string, string>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+
+const customValidators = new Map<string, CustomValidator>();
+
+export function registerValidator(name: string, validator: CustomValidator) {
+  customValidators.set(name, validator);
+}
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const isValidPhone = (value: string) =>
+  PHONE_PATTERN.test(value) && value.replace(/\D/g, "").length >= 7;
+
+// Patterns may come from the bot, so a broken one is skipped rather than blocking the field
+const compilePattern = (pattern: string, flags?: string) => {
+  try {
+    return new RegExp(pattern, flags);
+  } catch (error) {
+    console.warn(`⚠️ Ignoring invalid validation pattern /${pattern}/${flags ?? ""}:`, error);
+    return null;
+  }
+};
+
+// Comparable form of a value for "after" rules: dates compare as ISO strings, numbers as numbers
+const toComparable = (value: FormFieldValue) =>
+  typeof value === "number" || typeof value === "string" ? value : null;
+
+// Rules implied by the field definition, followed by any explicit validation rules
+export function getFieldRules(field: FormFieldDefinition): ValidationRule[] {
+  const rules: ValidationRule[] = [];
+
+  if (field.required) rules.push({ type: "required" });
+  if (field.kind === "email") rules.push({ type: "email" });
+  if (field.kind === "url") rules.push({ type: "url" });
+  if (field.kind === "phone") rules.push({ type: "phone" });
+  if (field.kind === "date") rules.push({ type: "date" });
+  if (field.kind === "number" && field.min !== undefined) rules.push({ type: "min", value: field.min });
+  if (field.kind === "number" && field.max !== undefined) rules.push({ type: "max", value: field.max });
+
+  return [...rules, ...(field.validation ?? [])];
+}
+
+function checkRule(rule: ValidationRule, field: FormFieldDefinition, value: FormFieldValue, values: FormValues): string | null {
+  const text = typeof value === "string" ? value.trim() : "";
+  const otherValue = "field" in rule ? values[rule.field] : undefined;
+
+  switch (rule.type) {
+    case "required":
+      return isEmptyValue(value) ? `${getFieldDisplayName(field)} is required` : null;
+    case "requiredIf": {
+      const conditionMet = rule.equals === undefined ? !isEmptyValue(otherValue) : otherValue === rule.equals;
+      return conditionMet && isEmptyValue(value) ? `${getFieldDisplayName(field)} is required` : null;
+    }
+    case "email":
+      return text && !EMAIL_PATTERN.test(text) ? "Please enter a valid email address" : null;
+    case "url":
+      return text && !isValidUrl(text) ? "Please enter a valid URL starting with http:// or https://" : null;
+    case "phone":
+      return text && !isValidPhone(text) ? "Please enter a valid phone number" : null;
+    case "date":
+      return text && !isValid(parseISO(text)) ? "Please choose a valid date" : null;
+    case "pattern": {
+      const pattern = compilePattern(rule.pattern, rule.flags);
+      return text && pattern && !pattern.test(text) ? "Please check the format of your answer" : null;
+    }
+    case "minLength":
+      return text && text.length < rule.value ? `Please enter at least ${rule.value} characters` : null;
+    case "maxLength":
+      return text.length > rule.value ? `Please enter no more than ${rule.value} characters` : null;
+    case "min":
+      return typeof value === "number" && value < rule.value ? `Please enter a value of at least ${rule.value}` : null;
+    case "max":
+      return typeof value === "number" && value > rule.value ? `Please enter a value of no more than ${rule.value}` : null;
+    case "matches":
+      return !isEmptyValue(value) && value !== otherValue ? "This doesn't match your previous answer" : null;
+    case "after": {
+      const current = toComparable(value);
+      const other = toComparable(otherValue);
+      if (current === null || other === null || current === "" || other === "") return null;
+      return current <= other ? "Please choose a later value" : null;
+    }
+    case "custom": {
+      const validator = customValidators.get(rule.name);
+      if (!validator) {
+        console.warn(`⚠️ No custom validator registered for "${rule.name}"`);
+        return null;
+      }
+      return validator(value, values, field);
+    }
+    default:
+      return null;
+  }
+}
+
+// Returns the first failing rule's message, or null when the value is valid
+export function validateField(field: FormFieldDefinition, value: FormFieldValue, values: FormValues = {}): string | null {
+  for (const rule of getFieldRules(field)) {
+    const error = checkRule(rule, field, value, values);
+    if (error) {
+      return rule.message || error;
+    }
+  }
+  return null;
+}
+
+export function validateForm(definition: FormDefinition, values: FormValues): FormErrors {
+  const errors: FormErrors = {};
+
+  for (const field of definition.fields) {
+    const error = validateField(field, values[field.id] ?? null, values);
+    if (error) {
+      errors[field.id] = error;
+    }
+  }
+
+  return errors;
+}
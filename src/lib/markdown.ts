@@ -0,0 +1,175 @@
+// Minimal Markdown subset for chat bubbles. Parses into a small tree that is
+// rendered as React elements, so raw HTML in the source always stays text.
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "code"; text: string };
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+// Only absolute http(s) and mailto links are allowed; anything else renders as plain text
+export function sanitizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Earliest match wins; order breaks ties between e.g. "**" and "*"
+const INLINE_PATTERNS: { type: "code" | "link" | "strong" | "em" | "url"; pattern: RegExp }[] = [
+  { type: "code", pattern: /`([^`]+)`/ },
+  // URLs may hold one level of balanced parentheses, as in Wikipedia links
+  { type: "link", pattern: /\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/ },
+  { type: "strong", pattern: /\*\*(.+?)\*\*|__(.+?)__/ },
+  { type: "em", pattern: /\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b/ },
+  { type: "url", pattern: /\bhttps?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/ }
+];
+
+export function parseInline(source: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = source;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") {
+      last.text += text;
+    } else {
+      nodes.push({ type: "text", text });
+    }
+  };
+
+  while (rest) {
+    let earliest: { type: typeof INLINE_PATTERNS[number]["type"]; match: RegExpExecArray } | null = null;
+    for (const { type, pattern } of INLINE_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) {
+        earliest = { type, match };
+      }
+    }
+
+    if (!earliest) {
+      pushText(rest);
+      break;
+    }
+
+    const { type, match } = earliest;
+    pushText(rest.slice(0, match.index));
+    rest = rest.slice(match.index + match[0].length);
+
+    if (type === "code") {
+      nodes.push({ type: "code", text: match[1] });
+    } else if (type === "link") {
+      const href = sanitizeUrl(match[2]);
+      if (href) {
+        nodes.push({ type: "link", href, children: parseInline(match[1]) });
+      } else {
+        pushText(match[1]);
+      }
+    } else if (type === "url") {
+      const href = sanitizeUrl(match[0]);
+      if (href) {
+        nodes.push({ type: "link", href, children: [{ type: "text", text: match[0] }] });
+      } else {
+        pushText(match[0]);
+      }
+    } else {
+      nodes.push({ type, children: parseInline(match[1] ?? match[2]) });
+    }
+  }
+
+  return nodes;
+}
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  const collect = (pattern: RegExp) => {
+    const collected: string[] = [];
+    while (index < lines.length) {
+      const match = pattern.exec(lines[index]);
+      if (!match) break;
+      collected.push(match[1]);
+      index++;
+    }
+    return collected;
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        code.push(lines[index]);
+        index++;
+      }
+      // Skip the closing fence; an unclosed block runs to the end of the message
+      index++;
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInline(heading[2])
+      });
+      index++;
+      continue;
+    }
+
+    if (UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line)) {
+      const ordered = ORDERED_ITEM.test(line);
+      const items = collect(ordered ? ORDERED_ITEM : UNORDERED_ITEM);
+      blocks.push({ type: "list", ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      blocks.push({ type: "quote", children: parseInline(collect(QUOTE).join("\n")) });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      ![FENCE, HEADING, UNORDERED_ITEM, ORDERED_ITEM, QUOTE].some(pattern => pattern.test(lines[index]))
+    ) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
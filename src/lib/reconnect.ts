@@ -0,0 +1,23 @@
+export interface ReconnectConfig {
+  enabled: boolean;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of the delay randomised in either direction, 0 to 1
+  jitter: number;
+}
+
+export const DEFAULT_RECONNECT_CONFIG: ReconnectConfig = {
+  enabled: true,
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.3
+};
+
+// Exponential backoff for the given 1-based attempt, jittered and then capped
+export function getReconnectDelay(attempt: number, config: ReconnectConfig = DEFAULT_RECONNECT_CONFIG): number {
+  const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempt - 1));
+  const spread = exponential * config.jitter * (Math.random() * 2 - 1);
+  return Math.min(config.maxDelayMs, Math.max(0, Math.round(exponential + spread)));
+}
@@ -0,0 +1,152 @@
+import { type ChatMessage, type ConversationSession, isDeliveredMessage } from "@/lib/conversation-history";
+import { downloadFile, fileTimestamp } from "@/lib/download";
+
+export type TranscriptFormat = "txt" | "md" | "json" | "vtt" | "srt";
+
+export interface TranscriptEntry {
+  speaker: "user" | "bot";
+  // "spoken" came from speech recognition or TTS, "typed" from the chat input
+  input: "spoken" | "typed";
+  text: string;
+  timestamp: string;
+  // Milliseconds since the call started
+  offset_ms: number;
+}
+
+export interface Transcript {
+  session_id: string;
+  form_id: string;
+  form_title: string;
+  started_at: string;
+  ended_at: string | null;
+  entries: TranscriptEntry[];
+}
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  txt: "Plain text",
+  md: "Markdown",
+  json: "JSON",
+  vtt: "WebVTT",
+  srt: "SRT"
+};
+
+const SPEAKER_LABELS: Record<TranscriptEntry["speaker"], string> = {
+  user: "User",
+  bot: "Bot"
+};
+
+// Rough speaking rate used to size subtitle cues
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1000;
+
+export function buildTranscript(session: ConversationSession, messages: ChatMessage[]): Transcript {
+  const startedAt = session.startedAt.getTime();
+
+  return {
+    session_id: session.id,
+    form_id: session.formId,
+    form_title: session.formTitle,
+    started_at: session.startedAt.toISOString(),
+    ended_at: session.endedAt?.toISOString() ?? null,
+    entries: messages
+      .filter(isDeliveredMessage)
+      .map(message => ({
+        speaker: message.isOwn ? "user" : "bot",
+        input: message.type === "transcription" ? "spoken" : "typed",
+        text: message.text,
+        timestamp: message.timestamp.toISOString(),
+        offset_ms: Math.max(0, message.timestamp.getTime() - startedAt)
+      }))
+  };
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// hh:mm:ss with a custom separator before the milliseconds (WebVTT ".", SRT ",")
+const formatCueTime = (ms: number, separator: "." | ",") => {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const formatOffset = (ms: number) => formatCueTime(ms, ".").slice(0, 8);
+
+// Blank lines end a cue and "-->" starts a timing line, so neither may appear in cue text
+const cueText = (text: string) => text.replace(/-->/g, "→").replace(/\n\s*\n/g, "\n");
+
+// WebVTT cue payloads are markup, so text must not open tags or entities
+const vttCueText = (text: string) =>
+  cueText(text).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const entryLabel = (entry: TranscriptEntry) =>
+  `${SPEAKER_LABELS[entry.speaker]} (${entry.input})`;
+
+// Each cue lasts roughly as long as it takes to say, but never overlaps the next one
+const getCues = (transcript: Transcript) =>
+  transcript.entries.map((entry, index) => {
+    const next = transcript.entries[index + 1];
+    const spokenMs = Math.max(MIN_CUE_MS, (entry.text.split(/\s+/).length / WORDS_PER_SECOND) * 1000);
+    const end = next ? Math.max(entry.offset_ms + 1, Math.min(entry.offset_ms + spokenMs, next.offset_ms)) : entry.offset_ms + spokenMs;
+    return { entry, start: entry.offset_ms, end: Math.round(end) };
+  });
+
+export function transcriptToText(transcript: Transcript): string {
+  const header = [
+    `${transcript.form_title} conversation`,
+    `Started: ${new Date(transcript.started_at).toLocaleString()}`,
+    ""
+  ];
+  const lines = transcript.entries.map(entry =>
+    `[${formatOffset(entry.offset_ms)}] ${entryLabel(entry)}: ${entry.text}`
+  );
+  return [...header, ...lines].join("\n");
+}
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const header = [
+    `# ${transcript.form_title} conversation`,
+    "",
+    `- **Session:** ${transcript.session_id}`,
+    `- **Started:** ${new Date(transcript.started_at).toLocaleString()}`,
+    `- **Ended:** ${transcript.ended_at ? new Date(transcript.ended_at).toLocaleString() : "In progress"}`,
+    ""
+  ];
+  const lines = transcript.entries.map(entry =>
+    `**${entryLabel(entry)}** \`${formatOffset(entry.offset_ms)}\`\n\n${entry.text.replace(/\n/g, "  \n")}\n`
+  );
+  return [...header, ...lines].join("\n");
+}
+
+export function transcriptToJson(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2);
+}
+
+export function transcriptToWebVtt(transcript: Transcript): string {
+  const cues = getCues(transcript).map(({ entry, start, end }) =>
+    `${formatCueTime(start, ".")} --> ${formatCueTime(end, ".")}\n<v ${SPEAKER_LABELS[entry.speaker]}>${vttCueText(entry.text)}`
+  );
+  return ["WEBVTT", "", ...cues.map(cue => `${cue}\n`)].join("\n");
+}
+
+export function transcriptToSrt(transcript: Transcript): string {
+  return getCues(transcript)
+    .map(({ entry, start, end }, index) =>
+      `${index + 1}\n${formatCueTime(start, ",")} --> ${formatCueTime(end, ",")}\n${SPEAKER_LABELS[entry.speaker]}: ${cueText(entry.text)}\n`
+    )
+    .join("\n");
+}
+
+const TRANSCRIPT_WRITERS: Record<TranscriptFormat, { serialize: (transcript: Transcript) => string; mime: string }> = {
+  txt: { serialize: transcriptToText, mime: "text/plain;charset=utf-8" },
+  md: { serialize: transcriptToMarkdown, mime: "text/markdown;charset=utf-8" },
+  json: { serialize: transcriptToJson, mime: "application/json" },
+  vtt: { serialize: transcriptToWebVtt, mime: "text/vtt;charset=utf-8" },
+  srt: { serialize: transcriptToSrt, mime: "application/x-subrip;charset=utf-8" }
+};
+
+export function downloadTranscript(transcript: Transcript, format: TranscriptFormat) {
+  const { serialize, mime } = TRANSCRIPT_WRITERS[format];
+  const filename = `${transcript.form_id}-transcript-${fileTimestamp(new Date(transcript.started_at))}.${format}`;
+  downloadFile(filename, serialize(transcript), mime);
+}
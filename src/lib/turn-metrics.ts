@@ -0,0 +1,98 @@
+import type { PipecatMetricsData } from "@pipecat-ai/client-js";
+
+// One user → bot exchange, measured from the moment the user stopped speaking
+export interface TurnTiming {
+  id: string;
+  startedAt: Date;
+  // performance.now() at UserStoppedSpeaking; only meaningful within the page session
+  userStoppedAt: number;
+  // UserStoppedSpeaking → BotStartedSpeaking; unset until the bot answers
+  voiceToVoiceMs?: number;
+  // UserStoppedSpeaking → final user transcript
+  transcriptMs?: number;
+  // Time to first byte reported by the server's `Metrics` events
+  llmTtfbMs?: number;
+  ttsTtfbMs?: number;
+}
+
+export type TurnMetricKey = "voiceToVoiceMs" | "transcriptMs" | "llmTtfbMs" | "ttsTtfbMs";
+
+export const TURN_METRIC_LABELS: Record<TurnMetricKey, string> = {
+  voiceToVoiceMs: "Voice to voice",
+  transcriptMs: "Transcript",
+  llmTtfbMs: "LLM first token",
+  ttsTtfbMs: "TTS first audio"
+};
+
+export interface LatencyStats {
+  average: number;
+  median: number;
+  p95: number;
+  min: number;
+  max: number;
+}
+
+export interface TurnMetricsSummary {
+  // Turns the bot answered
+  turnCount: number;
+  stats: Partial<Record<TurnMetricKey, LatencyStats>>;
+}
+
+export const createTurnTiming = (): TurnTiming => ({
+  id: `turn-${Date.now()}-${Math.random()}`,
+  startedAt: new Date(),
+  userStoppedAt: performance.now()
+});
+
+export const isAnsweredTurn = (turn: TurnTiming) => turn.voiceToVoiceMs !== undefined;
+
+// Pipecat reports TTFB in seconds per processor, e.g. "OpenAILLMService#0"
+export function getServiceTtfb(data: PipecatMetricsData): Pick<TurnTiming, "llmTtfbMs" | "ttsTtfbMs"> {
+  const find = (pattern: RegExp) => {
+    const metric = data.ttfb?.find(item => pattern.test(item.processor));
+    return metric ? Math.round(metric.value * 1000) : undefined;
+  };
+
+  return {
+    llmTtfbMs: find(/llm/i),
+    ttsTtfbMs: find(/tts/i)
+  };
+}
+
+const percentile = (sorted: number[], ratio: number) =>
+  sorted[Math.min(sorted.length - 1, Math.ceil(ratio * sorted.length) - 1)];
+
+export function getLatencyStats(values: number[]): LatencyStats | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    average: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    median: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    min: sorted[0],
+    max: sorted[sorted.length - 1]
+  };
+}
+
+export function summarizeTurns(turns: TurnTiming[]): TurnMetricsSummary {
+  const answered = turns.filter(isAnsweredTurn);
+  const stats: TurnMetricsSummary["stats"] = {};
+
+  (Object.keys(TURN_METRIC_LABELS) as TurnMetricKey[]).forEach(key => {
+    const values = answered
+      .map(turn => turn[key])
+      .filter((value): value is number => value !== undefined);
+    const keyStats = getLatencyStats(values);
+    if (keyStats) {
+      stats[key] = keyStats;
+    }
+  });
+
+  return { turnCount: answered.length, stats };
+}
+
+export function formatLatency(ms: number | undefined): string {
+  if (ms === undefined) return "—";
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
@@ -0,0 +1,31 @@
+import { useParams } from "react-router-dom";
+import { VideoCallApp } from "@/components/VideoCallApp";
+import { BotConnectionProvider } from "@/components/BotConnectionProvider";
+import { ConversationProvider } from "@/components/ConversationProvider";
+import { TurnMetricsProvider } from "@/components/TurnMetricsProvider";
+import { getFormDefinition } from "@/forms";
+import { getDraftSessionKey } from "@/lib/form-draft";
+import NotFound from "./NotFound";
+
+const FormPage = () => {
+  const { formId } = useParams<{ formId: string }>();
+  const definition = formId ? getFormDefinition(formId) : undefined;
+
+  if (!definition) {
+    return <NotFound />;
+  }
+
+  // Remount per form so form state never leaks between definitions; the provider
+  // ends any running call when it unmounts
+  return (
+    <BotConnectionProvider key={definition.id} formId={definition.id}>
+      <ConversationProvider definition={definition}>
+        <TurnMetricsProvider>
+          <VideoCallApp definition={definition} draftKey={getDraftSessionKey()} />
+        </TurnMetricsProvider>
+      </ConversationProvider>
+    </BotConnectionProvider>
+  );
+};
+
+export default FormPage;
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, Clock, MessageSquare, Search, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChatMarkdown } from "@/components/ChatMarkdown";
+import { ChatRichContent } from "@/components/ChatRichContent";
+import { ConversationSearch } from "@/components/ConversationSearch";
+import { TranscriptExportMenu } from "@/components/TranscriptExportMenu";
+import {
+  type ConversationSession,
+  FORM_OUTCOME_LABELS,
+  deleteSession,
+  formatDuration,
+  getSessionDuration,
+  listSessions
+} from "@/lib/conversation-history";
+import { cn } from "@/lib/utils";
+
+const History = () => {
+  const [sessions, setSessions] = useState<ConversationSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    const stored = await listSessions();
+    setSessions(stored);
+    setSelectedId(prev => prev ?? stored[0]?.id ?? null);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // ⌘K / Ctrl+K opens the search palette
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Bring a message picked from search into view
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`history-message-${highlightedMessageId}`)?.scrollIntoView({ block: "center" });
+  }, [highlightedMessageId, selectedId]);
+
+  const handleSelectSession = (id: string) => {
+    setSelectedId(id);
+    setHighlightedMessageId(null);
+  };
+
+  const handleSearchSelect = (sessionId: string, messageId: string) => {
+    setSelectedId(sessionId);
+    setHighlightedMessageId(messageId);
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    setSessions(prev => prev.filter(session => session.id !== id));
+    if (selectedId === id) {
+      setSelectedId(null);
+      setHighlightedMessageId(null);
+    }
+  };
+
+  const selected = sessions.find(session => session.id === selectedId);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft size={16} />
+              Forms
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Conversation history
+          </h1>
+          <Button variant="outline" size="sm" onClick={() => setIsSearchOpen(true)} disabled={sessions.length === 0}>
+            <Search size={16} />
+            Search
+            <kbd className="ml-2 text-xs text-muted-foreground">⌘K</kbd>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground">Loading conversations...</p>
+        ) : sessions.length === 0 ? (
+          <Card className="bg-gradient-card border-border/50 shadow-card p-8 text-center text-muted-foreground">
+            <p>No conversations yet.</p>
+            <p className="text-sm mt-1">Transcripts are saved here after each call.</p>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[320px_1fr] h-[calc(100vh-160px)]">
+            {/* Session list */}
+            <ScrollArea className="h-full pr-2">
+              <div className="space-y-2">
+                {sessions.map(session => (
+                  <button
+                    key={session.id}
+                    type="button"
+                    onClick={() => handleSelectSession(session.id)}
+                    className={cn(
+                      "w-full text-left rounded-lg border p-4 transition-colors hover:bg-muted/50",
+                      session.id === selectedId ? "border-primary bg-primary/5" : "border-border/50"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium truncate">{session.formTitle}</p>
+                      <Badge variant={session.outcome === "completed" ? "default" : "secondary"}>
+                        {FORM_OUTCOME_LABELS[session.outcome]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {format(session.startedAt, "PPP p")}
+                    </p>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground mt-2">
+                      <span className="flex items-center gap-1">
+                        <Clock size={12} />
+                        {formatDuration(getSessionDuration(session))}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <MessageSquare size={12} />
+                        {session.messages.length}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Transcript */}
+            <Card className="bg-gradient-card border-border/50 shadow-card flex flex-col min-h-0">
+              {selected ? (
+                <>
+                  <div className="flex items-center justify-between gap-4 p-4 border-b border-border/50">
+                    <div>
+                      <h2 className="font-semibold">{selected.formTitle}</h2>
+                      <p className="text-xs text-muted-foreground">
+                        {format(selected.startedAt, "PPP p")} · {formatDuration(getSessionDuration(selected))} · {FORM_OUTCOME_LABELS[selected.outcome]}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <TranscriptExportMenu session={selected} messages={selected.messages} />
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(selected.id)}>
+                        <Trash2 size={14} />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                  <ScrollArea className="flex-1 p-4">
+                    <div className="space-y-4">
+                      {selected.messages.length === 0 && (
+                        <p className="text-center text-sm text-muted-foreground py-8">No messages in this conversation.</p>
+                      )}
+                      {selected.messages.map(message => (
+                        <div
+                          key={message.id}
+                          id={`history-message-${message.id}`}
+                          className={`flex ${message.isOwn ? 'justify-end' : 'justify-start'}`}
+                        >
+                          <div
+                            className={cn(
+                              "max-w-[85%] p-3 rounded-lg shadow-sm",
+                              message.isOwn ? "bg-gradient-button text-primary-foreground" : "bg-secondary text-secondary-foreground",
+                              message.id === highlightedMessageId && "ring-2 ring-primary ring-offset-2"
+                            )}
+                          >
+                            {message.isOwn ? (
+                              <p className="text-sm leading-relaxed">{message.text}</p>
+                            ) : (
+                              message.text && <ChatMarkdown text={message.text} />
+                            )}
+                            {message.content && <ChatRichContent content={message.content} />}
+                            <p className="text-xs opacity-70 mt-1">{format(message.timestamp, "p")}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </>
+              ) : (
+                <p className="m-auto text-sm text-muted-foreground">Select a conversation to read its transcript.</p>
+              )}
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <ConversationSearch
+        sessions={sessions}
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        onSelect={handleSearchSelect}
+      />
+    </div>
+  );
+};
+
+export default History;
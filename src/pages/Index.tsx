@@ -1,7 +1,48 @@
-import { VideoCallApp } from "@/components/VideoCallApp";
+import { Link } from "react-router-dom";
+import { ArrowRight, FileText } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { formDefinitions } from "@/forms";
 
 const Index = () => {
-  return <VideoCallApp />;
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-3xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent mb-2">
+            SuperBryn- Bryn storm
+          </h1>
+          <p className="text-muted-foreground">Choose a form to fill in with the AI assistant</p>
+          <Link to="/history" className="text-sm underline text-muted-foreground hover:text-foreground">
+            View past conversations
+          </Link>
+        </div>
+
+        <div className="grid gap-4">
+          {formDefinitions.map(form => (
+            <Link key={form.id} to={`/forms/${form.id}`} className="group">
+              <Card className="bg-gradient-card border-border/50 shadow-card p-6 transition-all duration-300 group-hover:shadow-elegant">
+                <div className="flex items-center gap-4">
+                  <div className="p-2 bg-primary/10 rounded-lg">
+                    <FileText className="h-6 w-6 text-primary" />
+                  </div>
+                  <div className="flex-1">
+                    <h2 className="text-lg font-semibold text-foreground">{form.title}</h2>
+                    {form.description && (
+                      <p className="text-sm text-muted-foreground">{form.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {form.fields.length} {form.fields.length === 1 ? "question" : "questions"}
+                    </p>
+                  </div>
+                  <ArrowRight className="h-5 w-5 text-muted-foreground transition-transform group-hover:translate-x-1" />
+                </div>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
 };
 
 export default Index;